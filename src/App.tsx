@@ -1,12 +1,67 @@
-import React, { useState, useCallback } from "react";
+import React, {
+  useState,
+  useCallback,
+  useMemo,
+  useRef,
+  useEffect,
+} from "react";
 import { ImageUploader } from "./components/ImageUploader";
 import { ImageGallery } from "./components/ImageGallery";
 import { MetadataPanel } from "./components/MetadataPanel";
 import { Map } from "./components/Map";
-import { Camera, Trash2, Palette, Github } from "lucide-react";
+import { SanitizeDialog } from "./components/SanitizeDialog";
+import { ExportDialog } from "./components/ExportDialog";
+import { ComparisonView } from "./components/ComparisonView";
+import { GalleryFilters } from "./components/GalleryFilters";
+import { SessionMenu } from "./components/SessionMenu";
+import { PrivacyReportView } from "./components/PrivacyReportView";
+import { ClockCorrectionDialog } from "./components/ClockCorrectionDialog";
+import { TrackImportDialog } from "./components/TrackImportDialog";
+import { DuplicatesDialog } from "./components/DuplicatesDialog";
+import { AnalyticsDashboard } from "./components/AnalyticsDashboard";
+import {
+  Camera,
+  Trash2,
+  Palette,
+  Github,
+  ShieldCheck,
+  FileDown,
+  GitCompare,
+  ShieldAlert,
+  Clock,
+  Footprints,
+  Copy,
+  BarChart3,
+} from "lucide-react";
 import { motion } from "framer-motion";
 import { UploadedImage } from "./types";
-import { extractImageMetadata } from "./utils/exifUtils";
+import {
+  ExtractionProgress,
+  extractFiles,
+  mapWithConcurrency,
+} from "./utils/extractionPool";
+import { DEFAULT_TILE_SOURCE, TileSource } from "./utils/mapUtils";
+import { withPlace } from "./utils/geocodeUtils";
+import { findDuplicateGroups, withHashes } from "./utils/duplicateUtils";
+import { createPreviewBlob } from "./utils/previewUtils";
+import { analyzePrivacyBatch } from "./utils/privacyUtils";
+import { applyMetadataEdits, restoreLocation } from "./utils/editUtils";
+import { TrackReview } from "./utils/trackUtils";
+import {
+  clearImages,
+  deleteImages,
+  forgetSession,
+  loadSession,
+  saveImages,
+  saveSettings,
+} from "./utils/sessionStore";
+import {
+  DEFAULT_GALLERY_FILTER,
+  DEFAULT_GALLERY_SORT,
+  GalleryFilter,
+  GallerySort,
+  applyGalleryFilter,
+} from "./utils/filterUtils";
 
 const themes = [
   {
@@ -40,35 +95,152 @@ function App() {
   const [selectedImage, setSelectedImage] = useState<UploadedImage>();
   const [currentTheme, setCurrentTheme] = useState(0);
   const [showThemes, setShowThemes] = useState(false);
+  const [showSanitize, setShowSanitize] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const [showComparison, setShowComparison] = useState(false);
+  const [showPrivacyReport, setShowPrivacyReport] = useState(false);
+  const [showClockCorrection, setShowClockCorrection] = useState(false);
+  const [showTrackImport, setShowTrackImport] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [trackReview, setTrackReview] = useState<TrackReview>();
+  // Images as they were before each map or track location change, for undo
+  const [locationHistory, setLocationHistory] = useState<UploadedImage[][]>(
+    [],
+  );
+  const [galleryFilter, setGalleryFilter] = useState<GalleryFilter>(
+    DEFAULT_GALLERY_FILTER,
+  );
+  const [gallerySort, setGallerySort] =
+    useState<GallerySort>(DEFAULT_GALLERY_SORT);
+  const [extractionProgress, setExtractionProgress] =
+    useState<ExtractionProgress>();
+  const extractionController = useRef<AbortController>();
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+  const [tileSource, setTileSource] =
+    useState<TileSource>(DEFAULT_TILE_SOURCE);
+
+  const privacyReports = useMemo(() => analyzePrivacyBatch(images), [images]);
+  const duplicateGroups = useMemo(() => findDuplicateGroups(images), [images]);
+
+  const visibleImages = useMemo(
+    () => applyGalleryFilter(images, galleryFilter, gallerySort),
+    [images, galleryFilter, gallerySort],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSession().then(async (session) => {
+      // Sessions saved before place lookup or hashing existed get them here,
+      // a few at a time since hashing reads and decodes the whole file
+      const total = session?.images.length ?? 0;
+      const reportRestore = (done: number) => {
+        if (cancelled) return;
+        setExtractionProgress(
+          done < total
+            ? { done, total, stage: "Restoring session" }
+            : undefined,
+        );
+      };
+      if (total > 0) reportRestore(0);
+      const restored = session
+        ? await mapWithConcurrency(
+            session.images,
+            async (image) => withHashes(await withPlace(image)),
+            { onProgress: reportRestore },
+          )
+        : [];
+      if (cancelled) return;
+      if (session) {
+        setImages((prev) => [...restored, ...prev]);
+        setSelectedImage(
+          (prev) =>
+            prev ??
+            restored.find((img) => img.id === session.settings.selectedId) ??
+            restored[0],
+        );
+        if (themes[session.settings.theme]) {
+          setCurrentTheme(session.settings.theme);
+        }
+        if (session.settings.tileSource) {
+          setTileSource(session.settings.tileSource);
+        }
+      }
+      setSessionLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (sessionLoaded) {
+      saveSettings({
+        selectedId: selectedImage?.id,
+        theme: currentTheme,
+        tileSource,
+      });
+    }
+  }, [sessionLoaded, selectedImage?.id, currentTheme, tileSource]);
 
   const handleImagesUploaded = useCallback(async (files: File[]) => {
-    const newImages = await Promise.all(
-      files.map(async (file) => {
-        const metadata = await extractImageMetadata(file);
-        return {
+    const controller = new AbortController();
+    extractionController.current = controller;
+    setExtractionProgress({ done: 0, total: files.length });
+
+    const extracted = await extractFiles(files, {
+      signal: controller.signal,
+      onProgress: setExtractionProgress,
+    });
+    // Previews, places and hashes decode whole files on the main thread, so
+    // they run a few at a time; files finished before a cancel are kept
+    const stage = "Preparing previews";
+    setExtractionProgress({ done: 0, total: extracted.length, stage });
+    const newImages = await mapWithConcurrency(
+      extracted,
+      async ({ file, result }) => {
+        const previewBlob = await createPreviewBlob(file, result);
+        const image = await withPlace({
           id: Math.random().toString(36).substr(2, 9),
           file,
-          metadata,
-          preview: URL.createObjectURL(file),
-        };
-      }),
+          metadata: result.metadata,
+          tags: result.tags,
+          preview: URL.createObjectURL(previewBlob ?? file),
+          previewBlob,
+        });
+        return withHashes(image);
+      },
+      {
+        signal: controller.signal,
+        onProgress: (done) =>
+          setExtractionProgress({ done, total: extracted.length, stage }),
+      },
     );
+    extractionController.current = undefined;
+    setExtractionProgress(undefined);
 
     setImages((prev) => [...prev, ...newImages]);
+    saveImages(newImages);
     if (newImages.length > 0) {
       setSelectedImage(newImages[0]);
     }
   }, []);
 
-  const handleDeleteImage = useCallback(
-    (imageToDelete: UploadedImage) => {
-      URL.revokeObjectURL(imageToDelete.preview);
-      const remainingImages = images.filter(
-        (img) => img.id !== imageToDelete.id,
-      );
+  const handleCancelExtraction = useCallback(() => {
+    extractionController.current?.abort();
+  }, []);
+
+  const handleDeleteImages = useCallback(
+    (imagesToDelete: UploadedImage[]) => {
+      const ids = imagesToDelete.map((img) => img.id);
+      imagesToDelete.forEach((img) => URL.revokeObjectURL(img.preview));
+      const remainingImages = images.filter((img) => !ids.includes(img.id));
       setImages(remainingImages);
+      setCheckedIds((prev) => prev.filter((id) => !ids.includes(id)));
+      deleteImages(ids);
 
-      if (selectedImage?.id === imageToDelete.id) {
+      if (selectedImage && ids.includes(selectedImage.id)) {
         setSelectedImage(
           remainingImages.length > 0 ? remainingImages[0] : undefined,
         );
@@ -77,12 +249,105 @@ function App() {
     [images, selectedImage],
   );
 
+  const handleDeleteImage = useCallback(
+    (imageToDelete: UploadedImage) => handleDeleteImages([imageToDelete]),
+    [handleDeleteImages],
+  );
+
+  const handleUpdateImage = useCallback(async (image: UploadedImage) => {
+    const updatedImage = await withPlace(image);
+    setImages((prev) =>
+      prev.map((img) => (img.id === updatedImage.id ? updatedImage : img)),
+    );
+    setSelectedImage((prev) =>
+      prev?.id === updatedImage.id ? updatedImage : prev,
+    );
+    saveImages([updatedImage]);
+  }, []);
+
+  const handleUpdateImages = useCallback(
+    async (changedImages: UploadedImage[]) => {
+      const updatedImages = await Promise.all(changedImages.map(withPlace));
+      const findUpdate = (image?: UploadedImage) =>
+        updatedImages.find((updated) => updated.id === image?.id) ?? image;
+      setImages((prev) => prev.map((img) => findUpdate(img)!));
+      setSelectedImage((prev) => findUpdate(prev));
+      saveImages(updatedImages);
+    },
+    [],
+  );
+
+  const handleAcceptTrack = useCallback(() => {
+    if (!trackReview) return;
+    const matched = images.filter((img) =>
+      trackReview.matches.some((match) => match.imageId === img.id),
+    );
+    setLocationHistory((prev) => [...prev, matched]);
+    handleUpdateImages(
+      matched.map((image) => {
+        const { latitude, longitude } = trackReview.matches.find(
+          (match) => match.imageId === image.id,
+        )!;
+        return applyMetadataEdits(image, {
+          gps: { latitude, longitude },
+          gpsSource: "track",
+        });
+      }),
+    );
+    setTrackReview(undefined);
+  }, [trackReview, images, handleUpdateImages]);
+
+  const handlePlaceImage = useCallback(
+    (image: UploadedImage, latitude: number, longitude: number) => {
+      setLocationHistory((prev) => [...prev, [image]]);
+      handleUpdateImages([
+        applyMetadataEdits(image, {
+          gps: { latitude, longitude },
+          gpsSource: "user",
+        }),
+      ]);
+    },
+    [handleUpdateImages],
+  );
+
+  const handleUndoLocation = useCallback(() => {
+    const previous = locationHistory[locationHistory.length - 1];
+    if (!previous) return;
+    setLocationHistory((prev) => prev.slice(0, -1));
+    handleUpdateImages(
+      previous.flatMap((earlier) => {
+        const image = images.find((img) => img.id === earlier.id);
+        return image ? [restoreLocation(image, earlier)] : [];
+      }),
+    );
+  }, [locationHistory, images, handleUpdateImages]);
+
   const handleClear = useCallback(() => {
     images.forEach((image) => URL.revokeObjectURL(image.preview));
     setImages([]);
     setSelectedImage(undefined);
+    setCheckedIds([]);
+    setLocationHistory([]);
+    clearImages();
+  }, [images]);
+
+  const handleForgetSession = useCallback(() => {
+    images.forEach((image) => URL.revokeObjectURL(image.preview));
+    setImages([]);
+    setSelectedImage(undefined);
+    setCheckedIds([]);
+    setLocationHistory([]);
+    forgetSession();
   }, [images]);
 
+  const handleToggleChecked = useCallback((image: UploadedImage) => {
+    setCheckedIds((prev) =>
+      prev.includes(image.id)
+        ? prev.filter((id) => id !== image.id)
+        : [...prev, image.id],
+    );
+  }, []);
+
   const handleThemeChange = (index: number) => {
     setCurrentTheme(index);
     setShowThemes(false);
@@ -149,6 +414,10 @@ function App() {
                 </span>
               </motion.button>
             </div>
+            <SessionMenu
+              imageCount={images.length}
+              onForget={handleForgetSession}
+            />
             {images.length > 0}
           </div>
         </div>
@@ -174,6 +443,10 @@ function App() {
 
         <ImageUploader
           onImagesUploaded={handleImagesUploaded}
+          progress={extractionProgress}
+          onCancel={
+            extractionController.current ? handleCancelExtraction : undefined
+          }
           data-oid="e4hz6qg"
         />
 
@@ -238,20 +511,38 @@ function App() {
             data-oid="dt.-ju8"
           >
             <div className="md:col-span-2 space-y-8" data-oid="rd:fe4r">
-              {selectedImage?.metadata.gps && (
-                <Map
+              <Map
+                images={visibleImages}
+                selectedImage={selectedImage}
+                onMarkerClick={setSelectedImage}
+                tileSource={tileSource}
+                onTileSourceChange={setTileSource}
+                trackReview={trackReview}
+                onAcceptTrack={handleAcceptTrack}
+                onAdjustTrack={() => setShowTrackImport(true)}
+                onDiscardTrack={() => setTrackReview(undefined)}
+                onPlaceImage={handlePlaceImage}
+                onUndoPlacement={handleUndoLocation}
+                canUndoPlacement={locationHistory.length > 0}
+                data-oid="l92iev6"
+              />
+              <div className="relative" data-oid="v23ehm9">
+                <GalleryFilters
                   images={images}
-                  selectedImage={selectedImage}
-                  onMarkerClick={setSelectedImage}
-                  data-oid="l92iev6"
+                  visibleCount={visibleImages.length}
+                  filter={galleryFilter}
+                  sort={gallerySort}
+                  onFilterChange={setGalleryFilter}
+                  onSortChange={setGallerySort}
                 />
-              )}
-              <div className="relative" data-oid="v23ehm9">
                 <ImageGallery
-                  images={images}
+                  images={visibleImages}
                   onSelect={setSelectedImage}
                   selectedImage={selectedImage}
                   onDelete={handleDeleteImage}
+                  checkedIds={checkedIds}
+                  onToggleChecked={handleToggleChecked}
+                  privacyReports={privacyReports}
                   data-oid="74m-s9:"
                 />
 
@@ -259,9 +550,77 @@ function App() {
                   <motion.div
                     initial={{ scale: 0 }}
                     animate={{ scale: 1 }}
-                    className="absolute -bottom-0 right-0"
+                    className="absolute -bottom-0 right-0 flex gap-2"
                     data-oid="kbb-y-u"
                   >
+                    {checkedIds.length >= 2 && (
+                      <motion.button
+                        whileHover={{ scale: 1.05 }}
+                        className="flex items-center px-2 py-1 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors shadow-lg text-sm"
+                        onClick={() => setShowComparison(true)}
+                      >
+                        <GitCompare className="w-4 h-4 mr-2" />
+                        Compare ({checkedIds.length})
+                      </motion.button>
+                    )}
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      className="flex items-center px-2 py-1 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors shadow-lg text-sm"
+                      onClick={() => setShowPrivacyReport(true)}
+                    >
+                      <ShieldAlert className="w-4 h-4 mr-2" />
+                      Privacy
+                    </motion.button>
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      className="flex items-center px-2 py-1 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors shadow-lg text-sm"
+                      onClick={() => setShowAnalytics(true)}
+                    >
+                      <BarChart3 className="w-4 h-4 mr-2" />
+                      Analytics
+                    </motion.button>
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      className="flex items-center px-2 py-1 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors shadow-lg text-sm"
+                      onClick={() => setShowDuplicates(true)}
+                    >
+                      <Copy className="w-4 h-4 mr-2" />
+                      Duplicates
+                      {duplicateGroups.length > 0 &&
+                        ` (${duplicateGroups.length})`}
+                    </motion.button>
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      className="flex items-center px-2 py-1 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors shadow-lg text-sm"
+                      onClick={() => setShowClockCorrection(true)}
+                    >
+                      <Clock className="w-4 h-4 mr-2" />
+                      Fix Clock
+                    </motion.button>
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      className="flex items-center px-2 py-1 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors shadow-lg text-sm"
+                      onClick={() => setShowTrackImport(true)}
+                    >
+                      <Footprints className="w-4 h-4 mr-2" />
+                      GPS Track
+                    </motion.button>
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      className="flex items-center px-2 py-1 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors shadow-lg text-sm"
+                      onClick={() => setShowExport(true)}
+                    >
+                      <FileDown className="w-4 h-4 mr-2" />
+                      Export
+                    </motion.button>
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      className="flex items-center px-2 py-1 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors shadow-lg text-sm"
+                      onClick={() => setShowSanitize(true)}
+                    >
+                      <ShieldCheck className="w-4 h-4 mr-2" />
+                      Sanitize All
+                    </motion.button>
                     <motion.button
                       whileHover={{ scale: 1.05 }}
                       className="flex items-center px-2 py-1 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors shadow-lg text-sm"
@@ -276,10 +635,78 @@ function App() {
               </div>
             </div>
             <div data-oid="kpvqil3">
-              <MetadataPanel image={selectedImage} data-oid="q:3_7s4" />
+              <MetadataPanel
+                image={selectedImage}
+                onUpdate={handleUpdateImage}
+                data-oid="q:3_7s4"
+              />
             </div>
           </div>
         )}
+
+        {showSanitize && (
+          <SanitizeDialog
+            images={images}
+            onClose={() => setShowSanitize(false)}
+          />
+        )}
+
+        {showExport && (
+          <ExportDialog images={images} onClose={() => setShowExport(false)} />
+        )}
+
+        {showPrivacyReport && (
+          <PrivacyReportView
+            images={images}
+            reports={privacyReports}
+            onSelect={setSelectedImage}
+            onClose={() => setShowPrivacyReport(false)}
+          />
+        )}
+
+        {showClockCorrection && (
+          <ClockCorrectionDialog
+            images={images}
+            checkedIds={checkedIds}
+            onApply={handleUpdateImages}
+            onClose={() => setShowClockCorrection(false)}
+          />
+        )}
+
+        {showTrackImport && (
+          <TrackImportDialog
+            images={images}
+            review={trackReview}
+            onReview={setTrackReview}
+            onClose={() => setShowTrackImport(false)}
+          />
+        )}
+
+        {showAnalytics && (
+          <AnalyticsDashboard
+            images={images}
+            onFilter={(filter) => {
+              setGalleryFilter({ ...DEFAULT_GALLERY_FILTER, ...filter });
+              setShowAnalytics(false);
+            }}
+            onClose={() => setShowAnalytics(false)}
+          />
+        )}
+
+        {showDuplicates && (
+          <DuplicatesDialog
+            images={images}
+            onDelete={handleDeleteImages}
+            onClose={() => setShowDuplicates(false)}
+          />
+        )}
+
+        {showComparison && (
+          <ComparisonView
+            images={images.filter((img) => checkedIds.includes(img.id))}
+            onClose={() => setShowComparison(false)}
+          />
+        )}
       </main>
 
       <motion.footer
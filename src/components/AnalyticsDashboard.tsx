@@ -0,0 +1,128 @@
+import React, { useMemo } from "react";
+import { BarChart3, X } from "lucide-react";
+import { motion } from "framer-motion";
+import { UploadedImage } from "../types";
+import { GalleryFilter } from "../utils/filterUtils";
+import { AnalyticsChart, getLibraryAnalytics } from "../utils/analyticsUtils";
+
+interface Props {
+  images: UploadedImage[];
+  onFilter: (filter: Partial<GalleryFilter>) => void;
+  onClose: () => void;
+}
+
+const CHART_HEIGHT = 128;
+
+export const AnalyticsDashboard: React.FC<Props> = ({
+  images,
+  onFilter,
+  onClose,
+}) => {
+  const charts = useMemo(() => getLibraryAnalytics(images), [images]);
+
+  const renderChart = (chart: AnalyticsChart) => {
+    const peak = Math.max(1, ...chart.bars.map((bar) => bar.count));
+
+    return (
+      <div key={chart.key} className="rounded-lg border border-blue-100 p-3">
+        <div className="flex items-baseline justify-between mb-2">
+          <h3 className="font-medium text-blue-900">{chart.title}</h3>
+          {chart.missing > 0 && (
+            <span className="text-xs text-gray-500">
+              {chart.missing} without a value
+            </span>
+          )}
+        </div>
+
+        {chart.bars.length === 0 ? (
+          <p className="text-sm text-gray-500">No data</p>
+        ) : chart.layout === "rows" ? (
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {chart.bars.map((bar) => (
+              <button
+                key={bar.label}
+                onClick={() => onFilter(bar.filter)}
+                className="w-full flex items-center gap-2 text-xs text-left group"
+                title={`Show ${bar.count} ${bar.count === 1 ? "image" : "images"}`}
+              >
+                <span className="w-32 truncate text-gray-700">
+                  {bar.label}
+                </span>
+                <span className="flex-1">
+                  <span
+                    className="block h-4 rounded bg-blue-400 group-hover:bg-blue-600 transition-colors"
+                    style={{ width: `${(bar.count / peak) * 100}%` }}
+                  />
+                </span>
+                <span className="w-8 text-right text-gray-600">
+                  {bar.count}
+                </span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="flex items-end gap-1 overflow-x-auto pb-1">
+            {chart.bars.map((bar) => (
+              <button
+                key={bar.label}
+                onClick={() => onFilter(bar.filter)}
+                disabled={bar.count === 0}
+                className="flex flex-col items-center min-w-[1.75rem] flex-1 group"
+                title={`${bar.label}: ${bar.count} ${bar.count === 1 ? "image" : "images"}`}
+              >
+                <span className="text-[10px] text-gray-600">
+                  {bar.count || ""}
+                </span>
+                <span
+                  className="w-full rounded-t bg-blue-400 group-hover:bg-blue-600 transition-colors"
+                  style={{ height: (bar.count / peak) * CHART_HEIGHT }}
+                />
+                <span className="text-[10px] text-gray-600 mt-1 whitespace-nowrap">
+                  {bar.label}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[1000] flex items-center justify-center bg-black bg-opacity-40 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl shadow-xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center">
+            <BarChart3 className="w-5 h-5 text-blue-600 mr-2" />
+            <h2 className="text-lg font-semibold text-blue-900">
+              Library analytics
+            </h2>
+            <span className="ml-3 text-sm text-gray-600">
+              {images.length} {images.length === 1 ? "image" : "images"} ·
+              click a bar to filter the gallery
+            </span>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
+          {charts.map(renderChart)}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
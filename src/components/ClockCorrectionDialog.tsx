@@ -0,0 +1,384 @@
+import React, { useMemo, useState } from "react";
+import { Clock, X, Loader2 } from "lucide-react";
+import { motion } from "framer-motion";
+import { UploadedImage } from "../types";
+import { getCameraLabel, getFacetValues } from "../utils/filterUtils";
+import {
+  exifDateToIso,
+  formatDuration,
+  shiftExifDate,
+} from "../utils/dateUtils";
+import {
+  applyClockShift,
+  canWriteEdits,
+  getCorrectableDate,
+  getEditedFileName,
+  writeMetadataEdits,
+} from "../utils/editUtils";
+import { downloadBlob } from "../utils/downloadUtils";
+import { createZip } from "../utils/zipUtils";
+
+interface Props {
+  images: UploadedImage[];
+  checkedIds: string[];
+  onApply: (images: UploadedImage[]) => void;
+  onClose: () => void;
+}
+
+type SelectionMode = "camera" | "checked";
+type ShiftMode = "offset" | "reference";
+
+export const ClockCorrectionDialog: React.FC<Props> = ({
+  images,
+  checkedIds,
+  onApply,
+  onClose,
+}) => {
+  const cameras = useMemo(
+    () => getFacetValues(images, getCameraLabel),
+    [images],
+  );
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>(
+    checkedIds.length > 0 ? "checked" : "camera",
+  );
+  const [camera, setCamera] = useState(cameras[0]?.value ?? "");
+  const [shiftMode, setShiftMode] = useState<ShiftMode>("offset");
+  const [direction, setDirection] = useState<1 | -1>(1);
+  const [hours, setHours] = useState(0);
+  const [minutes, setMinutes] = useState(0);
+  const [seconds, setSeconds] = useState(0);
+  const [referenceId, setReferenceId] = useState("");
+  const [referenceTime, setReferenceTime] = useState("");
+  const [downloadCopies, setDownloadCopies] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const selected = useMemo(
+    () =>
+      selectionMode === "camera"
+        ? images.filter((image) => getCameraLabel(image) === camera)
+        : images.filter((image) => checkedIds.includes(image.id)),
+    [images, checkedIds, selectionMode, camera],
+  );
+  const datedImages = selected.filter(
+    (image) => exifDateToIso(getCorrectableDate(image)) !== "",
+  );
+
+  const reference =
+    datedImages.find((image) => image.id === referenceId) ?? datedImages[0];
+
+  const shiftSeconds = useMemo(() => {
+    if (shiftMode === "offset") {
+      return direction * (hours * 3600 + minutes * 60 + seconds);
+    }
+    if (!reference || !referenceTime) return 0;
+    const actual = Date.parse(`${referenceTime}Z`);
+    const recorded = Date.parse(
+      `${exifDateToIso(getCorrectableDate(reference))}Z`,
+    );
+    return isNaN(actual) || isNaN(recorded)
+      ? 0
+      : Math.round((actual - recorded) / 1000);
+  }, [shiftMode, direction, hours, minutes, seconds, reference, referenceTime]);
+
+  const handleApply = async () => {
+    const corrected = datedImages.map((image) =>
+      applyClockShift(image, shiftSeconds),
+    );
+    onApply(corrected);
+
+    if (!downloadCopies) {
+      onClose();
+      return;
+    }
+
+    // The gallery already has the new times, so the form starts over from
+    // them and a second Apply can't shift the same images again
+    setHours(0);
+    setMinutes(0);
+    setSeconds(0);
+    setReferenceTime("");
+    setDownloadCopies(false);
+
+    setIsWorking(true);
+    setErrors([]);
+    const failures: string[] = [];
+    const results: { name: string; blob: Blob }[] = [];
+
+    for (const image of corrected) {
+      if (!canWriteEdits(image)) {
+        failures.push(
+          `${image.metadata.fileName}: only JPEG files can be saved with edits`,
+        );
+        continue;
+      }
+      try {
+        const blob = await writeMetadataEdits(image.file, image.edits ?? {});
+        results.push({ name: getEditedFileName(image.file.name), blob });
+      } catch (error) {
+        failures.push(
+          `${image.metadata.fileName}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    try {
+      if (results.length === 1) {
+        downloadBlob(results[0].blob, results[0].name);
+      } else if (results.length > 1) {
+        const entries = await Promise.all(
+          results.map(async ({ name, blob }) => ({
+            name,
+            data: new Uint8Array(await blob.arrayBuffer()),
+          })),
+        );
+        downloadBlob(createZip(entries), "clock-corrected-images.zip");
+      }
+    } catch (error) {
+      failures.push(
+        `Download: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    setErrors(failures);
+    setIsWorking(false);
+    if (failures.length === 0) onClose();
+  };
+
+  const numberInput = (
+    label: string,
+    value: number,
+    onChange: (value: number) => void,
+  ) => (
+    <label className="flex-1 text-sm text-gray-700">
+      {label}
+      <input
+        type="number"
+        min={0}
+        value={value}
+        onChange={(e) => onChange(Math.max(0, parseInt(e.target.value) || 0))}
+        className="w-full px-2 py-1 rounded-lg border border-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-400"
+      />
+    </label>
+  );
+
+  const tabClassName = (active: boolean) =>
+    `px-3 py-1 text-sm rounded-lg ${
+      active
+        ? "bg-blue-500 text-white"
+        : "bg-blue-50 text-blue-700 hover:bg-blue-100"
+    }`;
+
+  return (
+    <div
+      className="fixed inset-0 z-[1000] flex items-center justify-center bg-black bg-opacity-40 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl shadow-xl p-6 w-full max-w-2xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center">
+            <Clock className="w-5 h-5 text-blue-600 mr-2" />
+            <h2 className="text-lg font-semibold text-blue-900">
+              Correct camera clock
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="space-y-4 overflow-y-auto">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Images</h3>
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => setSelectionMode("camera")}
+                className={tabClassName(selectionMode === "camera")}
+              >
+                By camera
+              </button>
+              <button
+                onClick={() => setSelectionMode("checked")}
+                disabled={checkedIds.length === 0}
+                className={`${tabClassName(selectionMode === "checked")} disabled:opacity-50`}
+              >
+                Selected ({checkedIds.length})
+              </button>
+              {selectionMode === "camera" && (
+                <select
+                  value={camera}
+                  onChange={(e) => setCamera(e.target.value)}
+                  className="px-2 py-1 text-sm rounded-lg border border-blue-200"
+                >
+                  {cameras.map(({ value, count }) => (
+                    <option key={value} value={value}>
+                      {value} ({count})
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Shift</h3>
+            <div className="flex gap-2 mb-3">
+              <button
+                onClick={() => setShiftMode("offset")}
+                className={tabClassName(shiftMode === "offset")}
+              >
+                Fixed amount
+              </button>
+              <button
+                onClick={() => setShiftMode("reference")}
+                className={tabClassName(shiftMode === "reference")}
+              >
+                From reference photo
+              </button>
+            </div>
+            {shiftMode === "offset" ? (
+              <div className="flex items-end gap-2">
+                <select
+                  value={direction}
+                  onChange={(e) =>
+                    setDirection(e.target.value === "-1" ? -1 : 1)
+                  }
+                  className="px-2 py-1 text-sm rounded-lg border border-blue-200"
+                >
+                  <option value="1">Add</option>
+                  <option value="-1">Subtract</option>
+                </select>
+                {numberInput("Hours", hours, setHours)}
+                {numberInput("Minutes", minutes, setMinutes)}
+                {numberInput("Seconds", seconds, setSeconds)}
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm text-gray-700">
+                <label>
+                  Reference photo
+                  <select
+                    value={reference?.id ?? ""}
+                    onChange={(e) => setReferenceId(e.target.value)}
+                    className="w-full px-2 py-1 rounded-lg border border-blue-200"
+                  >
+                    {datedImages.map((image) => (
+                      <option key={image.id} value={image.id}>
+                        {image.metadata.fileName}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  Its true capture time
+                  <input
+                    type="datetime-local"
+                    step={1}
+                    value={referenceTime}
+                    onChange={(e) => setReferenceTime(e.target.value)}
+                    className="w-full px-2 py-1 rounded-lg border border-blue-200"
+                  />
+                </label>
+              </div>
+            )}
+            <p className="text-sm text-blue-800 mt-2">
+              Shift: {formatDuration(shiftSeconds)}
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">
+              Preview ({datedImages.length} images
+              {selected.length > datedImages.length &&
+                `, ${selected.length - datedImages.length} without a date skipped`}
+              )
+            </h3>
+            <div className="max-h-56 overflow-y-auto border border-gray-100 rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600">
+                    <th className="sticky top-0 bg-white px-3 py-1 font-medium">
+                      File
+                    </th>
+                    <th className="sticky top-0 bg-white px-3 py-1 font-medium">
+                      Before
+                    </th>
+                    <th className="sticky top-0 bg-white px-3 py-1 font-medium">
+                      After
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {datedImages.map((image) => (
+                    <tr key={image.id} className="border-t border-gray-100">
+                      <td className="px-3 py-1 text-blue-900 break-all">
+                        {image.metadata.fileName}
+                      </td>
+                      <td className="px-3 py-1 text-gray-700">
+                        {exifDateToIso(getCorrectableDate(image)).replace(
+                          "T",
+                          " ",
+                        )}
+                      </td>
+                      <td
+                        className={`px-3 py-1 ${shiftSeconds ? "text-amber-700" : "text-gray-700"}`}
+                      >
+                        {exifDateToIso(
+                          shiftExifDate(getCorrectableDate(image), shiftSeconds),
+                        ).replace("T", " ")}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-800">
+            <input
+              type="checkbox"
+              checked={downloadCopies}
+              onChange={() => setDownloadCopies(!downloadCopies)}
+            />
+            Also download JPEG copies with the corrected EXIF dates
+          </label>
+
+          {errors.length > 0 && (
+            <div className="text-sm text-red-600">
+              <p>
+                The dates were corrected in the gallery, but these copies
+                could not be downloaded:
+              </p>
+              <ul className="list-disc list-inside">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={handleApply}
+          disabled={isWorking || shiftSeconds === 0 || datedImages.length === 0}
+          className="mt-4 w-full flex items-center justify-center bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-60"
+        >
+          {isWorking ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Clock className="w-4 h-4 mr-2" />
+          )}
+          Apply to {datedImages.length} images
+        </button>
+      </motion.div>
+    </div>
+  );
+};
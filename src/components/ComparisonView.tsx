@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from "react";
+import { GitCompare, X, AlertTriangle } from "lucide-react";
+import { motion } from "framer-motion";
+import { UploadedImage } from "../types";
+import {
+  ComparisonRow,
+  buildRawTagRows,
+  buildSummaryRows,
+  hasModifyDateMismatch,
+} from "../utils/compareUtils";
+import { formatDuration } from "../utils/dateUtils";
+
+interface Props {
+  images: UploadedImage[];
+  onClose: () => void;
+}
+
+export const ComparisonView: React.FC<Props> = ({ images, onClose }) => {
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const [showRawTags, setShowRawTags] = useState(true);
+
+  const summaryRows = useMemo(() => buildSummaryRows(images), [images]);
+  const rawRows = useMemo(() => buildRawTagRows(images), [images]);
+
+  const filterRows = (rows: ComparisonRow[]) =>
+    onlyDifferences ? rows.filter((row) => row.differs) : rows;
+
+  const renderRows = (rows: ComparisonRow[]) =>
+    filterRows(rows).map((row) => (
+      <tr
+        key={row.key}
+        className={`border-t border-gray-100 align-top ${row.differs ? "bg-amber-50" : ""}`}
+      >
+        <th
+          className={`sticky left-0 px-3 py-1 text-left font-medium break-words ${
+            row.differs ? "bg-amber-50 text-amber-900" : "bg-white text-gray-700"
+          }`}
+        >
+          {row.label}
+        </th>
+        {row.values.map((value, index) => (
+          <td key={index} className="px-3 py-1 text-gray-800 break-words">
+            {value || <span className="text-gray-400">—</span>}
+          </td>
+        ))}
+      </tr>
+    ));
+
+  const differenceCount = [...summaryRows, ...rawRows].filter(
+    (row) => row.differs,
+  ).length;
+
+  return (
+    <div
+      className="fixed inset-0 z-[1000] flex items-center justify-center bg-black bg-opacity-40 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl shadow-xl p-6 w-full max-w-6xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center">
+            <GitCompare className="w-5 h-5 text-blue-600 mr-2" />
+            <h2 className="text-lg font-semibold text-blue-900">
+              Compare {images.length} images
+            </h2>
+            <span className="ml-3 text-sm text-amber-700">
+              {differenceCount} differences
+            </span>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-4 mb-4 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={onlyDifferences}
+              onChange={() => setOnlyDifferences(!onlyDifferences)}
+            />
+            Only show differences
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={showRawTags}
+              onChange={() => setShowRawTags(!showRawTags)}
+            />
+            Include raw tags
+          </label>
+        </div>
+
+        <div className="overflow-auto flex-1">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className="sticky left-0 top-0 z-10 bg-white w-48" />
+                {images.map((image) => (
+                  <th
+                    key={image.id}
+                    className="sticky top-0 bg-white px-3 py-2 text-left font-normal min-w-[180px]"
+                  >
+                    <img
+                      src={image.preview}
+                      alt={image.metadata.fileName}
+                      className="w-20 h-20 object-cover rounded-lg mb-1"
+                    />
+                    <div className="font-medium text-blue-900 break-all">
+                      {image.metadata.fileName}
+                    </div>
+                    {hasModifyDateMismatch(image) && (
+                      <div className="flex items-center text-xs text-amber-700 mt-1">
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        Modified after capture
+                      </div>
+                    )}
+                    {image.metadata.capture?.clockMismatch && (
+                      <div className="flex items-center text-xs text-amber-700 mt-1">
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        Clock off from GPS by{" "}
+                        {formatDuration(
+                          image.metadata.capture.clockOffsetSeconds!,
+                        )}
+                      </div>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td
+                  colSpan={images.length + 1}
+                  className="px-3 pt-3 pb-1 font-semibold text-blue-900"
+                >
+                  Summary
+                </td>
+              </tr>
+              {renderRows(summaryRows)}
+              {showRawTags && (
+                <>
+                  <tr>
+                    <td
+                      colSpan={images.length + 1}
+                      className="px-3 pt-4 pb-1 font-semibold text-blue-900"
+                    >
+                      Raw tags
+                    </td>
+                  </tr>
+                  {renderRows(rawRows)}
+                </>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from "react";
+import { Copy, X, Trash2, Star } from "lucide-react";
+import { motion } from "framer-motion";
+import { UploadedImage } from "../types";
+import { formatBytes } from "../utils/sessionStore";
+import {
+  DuplicateGroup,
+  findDuplicateGroups,
+  getMetadataRichness,
+} from "../utils/duplicateUtils";
+
+interface Props {
+  images: UploadedImage[];
+  onDelete: (images: UploadedImage[]) => void;
+  onClose: () => void;
+}
+
+export const DuplicatesDialog: React.FC<Props> = ({
+  images,
+  onDelete,
+  onClose,
+}) => {
+  const groups = useMemo(() => findDuplicateGroups(images), [images]);
+  // Images the user chose to keep, so the choice follows the image when groups are recomputed
+  const [keepIds, setKeepIds] = useState<string[]>([]);
+
+  const keptId = (group: DuplicateGroup) =>
+    group.images.find((image) => keepIds.includes(image.id))?.id ??
+    group.keepId;
+  const toRemove = groups.flatMap((group) =>
+    group.images.filter((image) => image.id !== keptId(group)),
+  );
+  const pendingCount = images.filter((image) => !image.hashes).length;
+
+  const handleRemove = () => {
+    if (
+      window.confirm(
+        `Remove ${toRemove.length} duplicate ${toRemove.length === 1 ? "image" : "images"} from the gallery?`,
+      )
+    ) {
+      onDelete(toRemove);
+      setKeepIds([]);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[1000] flex items-center justify-center bg-black bg-opacity-40 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl shadow-xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center">
+            <Copy className="w-5 h-5 text-blue-600 mr-2" />
+            <h2 className="text-lg font-semibold text-blue-900">Duplicates</h2>
+            <span className="ml-3 text-sm text-gray-600">
+              {groups.length} {groups.length === 1 ? "group" : "groups"},{" "}
+              {toRemove.length} extra {toRemove.length === 1 ? "copy" : "copies"}
+            </span>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        {pendingCount > 0 && (
+          <p className="text-sm text-gray-500 mb-2">
+            Still hashing {pendingCount}{" "}
+            {pendingCount === 1 ? "image" : "images"}...
+          </p>
+        )}
+
+        <div className="overflow-y-auto flex-1 space-y-4">
+          {groups.length === 0 && (
+            <p className="text-gray-500 text-center py-8">
+              No duplicates found
+            </p>
+          )}
+          {groups.map((group) => (
+            <div
+              key={group.images.map((image) => image.id).join()}
+              className="rounded-lg border border-blue-100"
+            >
+              <div className="px-3 py-2 bg-blue-50 rounded-t-lg text-sm">
+                <span className="font-medium text-blue-900">
+                  {group.identical ? "Identical files" : "Visually similar"}
+                </span>
+                <span className="ml-2 text-blue-600">
+                  {group.images.length} copies
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-3 p-3">
+                {group.images.map((image) => {
+                  const richness = getMetadataRichness(image);
+                  const kept = image.id === keptId(group);
+                  return (
+                    <label
+                      key={image.id}
+                      className={`w-48 p-2 rounded-lg border cursor-pointer text-xs ${
+                        kept
+                          ? "border-green-400 bg-green-50"
+                          : "border-gray-200 opacity-75"
+                      }`}
+                    >
+                      <img
+                        src={image.preview}
+                        alt={image.metadata.fileName}
+                        className="w-full h-28 object-cover rounded mb-2"
+                      />
+                      <div className="flex items-center gap-1 mb-1">
+                        <input
+                          type="radio"
+                          name={`keep-${group.keepId}`}
+                          checked={kept}
+                          onChange={() =>
+                            setKeepIds((prev) => [
+                              ...prev.filter(
+                                (id) =>
+                                  !group.images.some((member) => member.id === id),
+                              ),
+                              image.id,
+                            ])
+                          }
+                        />
+                        <span className="font-medium text-blue-900 break-all">
+                          {image.metadata.fileName}
+                        </span>
+                      </div>
+                      <p className="text-gray-500">
+                        {formatBytes(image.file.size)}
+                        {image.id === group.keepId && (
+                          <span className="inline-flex items-center ml-2 text-green-700">
+                            <Star className="w-3 h-3 mr-0.5" />
+                            Richest metadata
+                          </span>
+                        )}
+                      </p>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {richness.features.map((feature) => (
+                          <span
+                            key={feature}
+                            className="px-1.5 py-0.5 rounded bg-blue-100 text-blue-800"
+                          >
+                            {feature}
+                          </span>
+                        ))}
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {toRemove.length > 0 && (
+          <div className="flex justify-end mt-4">
+            <button
+              onClick={handleRemove}
+              className="flex items-center px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Remove {toRemove.length} other{" "}
+              {toRemove.length === 1 ? "copy" : "copies"}
+            </button>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from "react";
+import {
+  Image as ImageIcon,
+  AlertTriangle,
+  CheckCircle,
+  Loader2,
+} from "lucide-react";
+import { UploadedImage } from "../types";
+import {
+  EmbeddedPreview,
+  PreviewComparison,
+  comparePreview,
+  formatAspectRatio,
+  getEmbeddedPreviews,
+  revokeEmbeddedPreviews,
+} from "../utils/thumbnailUtils";
+import { HASH_BITS } from "../utils/imageHashUtils";
+
+interface Props {
+  image: UploadedImage;
+}
+
+interface CheckedPreview extends EmbeddedPreview {
+  comparison?: PreviewComparison;
+}
+
+export const EmbeddedPreviews: React.FC<Props> = ({ image }) => {
+  const [previews, setPreviews] = useState<CheckedPreview[]>();
+
+  useEffect(() => {
+    let cancelled = false;
+    let found: EmbeddedPreview[] = [];
+    setPreviews(undefined);
+
+    (async () => {
+      try {
+        found = await getEmbeddedPreviews(image);
+        if (cancelled) {
+          revokeEmbeddedPreviews(found);
+          return;
+        }
+        const checked = await Promise.all(
+          found.map(async (preview) => ({
+            ...preview,
+            comparison: await comparePreview(preview.url, image.preview).catch(
+              () => undefined,
+            ),
+          })),
+        );
+        if (!cancelled) setPreviews(checked);
+      } catch (error) {
+        console.error("Error reading embedded previews:", error);
+        if (!cancelled) setPreviews([]);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      revokeEmbeddedPreviews(found);
+    };
+  }, [image]);
+
+  if (previews?.length === 0) return null;
+
+  const compared = previews?.filter((preview) => preview.comparison);
+  const mismatched = compared?.filter(
+    (preview) => preview.comparison!.mismatch,
+  );
+
+  return (
+    <div className="bg-sky-50/80 backdrop-blur-sm p-4 rounded-lg">
+      <div className="flex items-center mb-2">
+        <ImageIcon className="w-5 h-5 text-sky-600 mr-2" />
+        <h3 className="font-medium text-sky-900">Embedded Previews</h3>
+      </div>
+
+      {!previews ? (
+        <p className="flex items-center text-sm text-sky-700">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Comparing with the main image...
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-3">
+            <figure className="text-xs text-sky-800">
+              <img
+                src={image.preview}
+                alt={image.metadata.fileName}
+                className="h-24 w-auto rounded border border-sky-200"
+              />
+              <figcaption className="mt-1">Main image</figcaption>
+            </figure>
+            {previews.map((preview) => (
+              <figure key={preview.url} className="text-xs text-sky-800">
+                <img
+                  src={preview.url}
+                  alt={preview.label}
+                  className={`h-24 w-auto rounded border ${
+                    preview.comparison?.mismatch
+                      ? "border-amber-400"
+                      : "border-sky-200"
+                  }`}
+                />
+                <figcaption className="mt-1">
+                  {preview.label}, {preview.width}×{preview.height}
+                </figcaption>
+                {preview.comparison && (
+                  <figcaption className="text-sky-600">
+                    {formatAspectRatio(preview.comparison.previewAspect)} ·{" "}
+                    {preview.comparison.hashDistance}/{HASH_BITS} bits differ
+                  </figcaption>
+                )}
+              </figure>
+            ))}
+          </div>
+
+          {mismatched && mismatched.length > 0 ? (
+            <p className="flex items-start text-sm text-amber-700 mt-3">
+              <AlertTriangle className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+              {mismatched.map((preview) => preview.label).join(" and ")}{" "}
+              {mismatched.length === 1 ? "differs" : "differ"} from the main
+              image (aspect{" "}
+              {formatAspectRatio(mismatched[0].comparison!.previewAspect)} vs{" "}
+              {formatAspectRatio(mismatched[0].comparison!.imageAspect)}). The
+              photo was probably cropped or edited after capture.
+            </p>
+          ) : (
+            compared!.length > 0 && (
+              <p className="flex items-center text-sm text-green-700 mt-3">
+                <CheckCircle className="w-4 h-4 mr-1 flex-shrink-0" />
+                Embedded previews match the main image
+              </p>
+            )
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import { FileDown, X } from "lucide-react";
+import { motion } from "framer-motion";
+import { UploadedImage } from "../types";
+import {
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportResult,
+  exportImages,
+} from "../utils/exportUtils";
+import { downloadBlob } from "../utils/downloadUtils";
+
+interface Props {
+  images: UploadedImage[];
+  onClose: () => void;
+}
+
+export const ExportDialog: React.FC<Props> = ({ images, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [columnKeys, setColumnKeys] = useState<string[]>(
+    EXPORT_COLUMNS.map((column) => column.key),
+  );
+  const [result, setResult] = useState<ExportResult>();
+
+  const isDelimited = format === "csv" || format === "tsv";
+
+  const toggleColumn = (key: string) => {
+    setColumnKeys((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key],
+    );
+  };
+
+  const handleExport = () => {
+    const columns = EXPORT_COLUMNS.filter((column) =>
+      columnKeys.includes(column.key),
+    );
+    const exportResult = exportImages(images, format, columns);
+    if (exportResult.exported > 0) {
+      downloadBlob(
+        new Blob([exportResult.content], { type: exportResult.mimeType }),
+        exportResult.fileName,
+      );
+    }
+    setResult(exportResult);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[1000] flex items-center justify-center bg-black bg-opacity-40 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl shadow-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center">
+            <FileDown className="w-5 h-5 text-blue-600 mr-2" />
+            <h2 className="text-lg font-semibold text-blue-900">
+              Export {images.length} images
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {EXPORT_FORMATS.map((entry) => (
+            <button
+              key={entry.format}
+              onClick={() => {
+                setFormat(entry.format);
+                setResult(undefined);
+              }}
+              className={`px-3 py-1 text-sm rounded-lg ${
+                format === entry.format
+                  ? "bg-blue-500 text-white"
+                  : "bg-blue-50 text-blue-700 hover:bg-blue-100"
+              }`}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+
+        {format !== "gpx" && (
+          <div className="mb-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">
+              {isDelimited ? "Columns" : "Properties"}
+            </h3>
+            <div className="grid grid-cols-2 gap-1">
+              {EXPORT_COLUMNS.map((column) => (
+                <label
+                  key={column.key}
+                  className="flex items-center gap-2 text-sm text-gray-800"
+                >
+                  <input
+                    type="checkbox"
+                    checked={columnKeys.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <div className="mb-4 p-3 rounded-lg bg-blue-50 text-sm text-blue-800 space-y-1">
+            <p>Exported {result.exported} images.</p>
+            {result.skipped.length > 0 && (
+              <>
+                <p className="text-amber-700">
+                  Skipped {result.skipped.length} without GPS:
+                </p>
+                <ul className="list-disc list-inside text-gray-600 max-h-32 overflow-y-auto">
+                  {result.skipped.map((fileName, index) => (
+                    <li key={`${fileName}-${index}`}>{fileName}</li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+
+        <button
+          onClick={handleExport}
+          disabled={isDelimited && columnKeys.length === 0}
+          className="w-full flex items-center justify-center bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-60"
+        >
+          <FileDown className="w-4 h-4 mr-2" />
+          Export
+        </button>
+      </motion.div>
+    </div>
+  );
+};
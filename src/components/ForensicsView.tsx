@@ -0,0 +1,331 @@
+import React, { useEffect, useState } from "react";
+import {
+  ScanSearch,
+  X,
+  Loader2,
+  AlertTriangle,
+  Fingerprint,
+} from "lucide-react";
+import { motion } from "framer-motion";
+import { UploadedImage } from "../types";
+import {
+  DEFAULT_ELA_QUALITY,
+  DEFAULT_ELA_SCALE,
+  ErrorLevelResult,
+  QuantizationAnalysis,
+  analyzeQuantization,
+  computeErrorLevel,
+  getMetadataClues,
+} from "../utils/forensicsUtils";
+
+interface Props {
+  image: UploadedImage;
+  onClose: () => void;
+}
+
+type Tab = "ela" | "quantization";
+
+// Sliders recompute the overlay once they stop moving
+const RECOMPUTE_DELAY = 300;
+
+export const ForensicsView: React.FC<Props> = ({ image, onClose }) => {
+  const [tab, setTab] = useState<Tab>("ela");
+  const [quality, setQuality] = useState(DEFAULT_ELA_QUALITY);
+  const [scale, setScale] = useState(DEFAULT_ELA_SCALE);
+  const [opacity, setOpacity] = useState(100);
+  const [errorLevel, setErrorLevel] = useState<ErrorLevelResult>();
+  const [elaError, setElaError] = useState<string>();
+  const [analysis, setAnalysis] = useState<QuantizationAnalysis | null>();
+
+  const clues = getMetadataClues(image);
+
+  useEffect(() => {
+    let cancelled = false;
+    let result: ErrorLevelResult | undefined;
+    setElaError(undefined);
+
+    const timer = setTimeout(async () => {
+      try {
+        // Rotated previews are re-encoded, so JPEGs are analysed from the
+        // original bytes unless their orientation was edited
+        const source =
+          image.metadata.format === "jpeg" &&
+          image.edits?.orientation === undefined
+            ? image.file
+            : image.preview;
+        result = await computeErrorLevel(source, quality, scale);
+        if (cancelled) {
+          URL.revokeObjectURL(result.url);
+        } else {
+          setErrorLevel(result);
+        }
+      } catch (error) {
+        console.error("Error level analysis failed:", error);
+        if (!cancelled) setElaError("This image could not be decoded");
+      }
+    }, RECOMPUTE_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [image, quality, scale]);
+
+  useEffect(() => {
+    return () => {
+      if (errorLevel) URL.revokeObjectURL(errorLevel.url);
+    };
+  }, [errorLevel]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAnalysis(undefined);
+    analyzeQuantization(image)
+      .then((result) => !cancelled && setAnalysis(result ?? null))
+      .catch((error) => {
+        console.error("Error reading quantization tables:", error);
+        if (!cancelled) setAnalysis(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  const tabClass = (value: Tab) =>
+    `px-3 py-1 rounded-lg text-sm transition-colors ${
+      tab === value
+        ? "bg-blue-500 text-white"
+        : "bg-blue-50 text-blue-700 hover:bg-blue-100"
+    }`;
+
+  return (
+    <div
+      className="fixed inset-0 z-[1000] flex items-center justify-center bg-black bg-opacity-40 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl shadow-xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center min-w-0">
+            <ScanSearch className="w-5 h-5 text-blue-600 mr-2 shrink-0" />
+            <h2 className="text-lg font-semibold text-blue-900 truncate">
+              Forensics · {image.metadata.fileName}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <button onClick={() => setTab("ela")} className={tabClass("ela")}>
+            Error level analysis
+          </button>
+          <button
+            onClick={() => setTab("quantization")}
+            className={tabClass("quantization")}
+          >
+            JPEG quantization
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-4 overflow-y-auto flex-1">
+          <div className="flex-1 min-w-0">
+            {tab === "ela" ? (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4 text-sm text-gray-700">
+                  <label>
+                    Recompress quality: {quality}
+                    <input
+                      type="range"
+                      min={50}
+                      max={100}
+                      value={quality}
+                      onChange={(e) => setQuality(Number(e.target.value))}
+                      className="w-full"
+                    />
+                  </label>
+                  <label>
+                    Amplification: ×{scale}
+                    <input
+                      type="range"
+                      min={1}
+                      max={50}
+                      value={scale}
+                      onChange={(e) => setScale(Number(e.target.value))}
+                      className="w-full"
+                    />
+                  </label>
+                  <label>
+                    Overlay opacity: {opacity}%
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      value={opacity}
+                      onChange={(e) => setOpacity(Number(e.target.value))}
+                      className="w-full"
+                    />
+                  </label>
+                </div>
+
+                {elaError ? (
+                  <p className="text-red-600 text-sm">{elaError}</p>
+                ) : !errorLevel ? (
+                  <p className="flex items-center text-sm text-blue-700">
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Recompressing...
+                  </p>
+                ) : (
+                  <>
+                    <div className="relative rounded-lg overflow-hidden bg-black">
+                      <img
+                        src={image.preview}
+                        alt={image.metadata.fileName}
+                        className="w-full h-auto"
+                      />
+                      <img
+                        src={errorLevel.url}
+                        alt="Error level"
+                        className="absolute inset-0 w-full h-full"
+                        style={{ opacity: opacity / 100 }}
+                      />
+                    </div>
+                    <p className="text-sm text-gray-600 mt-2">
+                      Mean error {errorLevel.meanError.toFixed(2)} at quality{" "}
+                      {quality} ({errorLevel.width}×{errorLevel.height}
+                      {errorLevel.downscaled &&
+                        ", analysed at full size and shown scaled down"}
+                      ).
+                      Uniform noise is normal; bright regions with sharp edges
+                      that differ from similar surfaces nearby may have been
+                      edited after the last save.
+                    </p>
+                  </>
+                )}
+              </>
+            ) : analysis === undefined ? (
+              <p className="flex items-center text-sm text-blue-700">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Reading quantization tables...
+              </p>
+            ) : analysis === null ? (
+              <p className="text-gray-500 text-sm">
+                Quantization tables are only available for JPEG files.
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+                  <div>
+                    <p className="text-gray-500">Estimated quality</p>
+                    <p className="font-medium text-blue-900">
+                      {analysis.estimate
+                        ? `${analysis.estimate.exact ? "" : "≈"}${analysis.estimate.quality}`
+                        : "Unknown"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Tables</p>
+                    <p className="font-medium text-blue-900">
+                      {analysis.estimate?.exact ? "IJG standard" : "Custom"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Subsampling</p>
+                    <p className="font-medium text-blue-900">
+                      {analysis.subsampling ?? "Unknown"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Encoding</p>
+                    <p className="font-medium text-blue-900">
+                      {analysis.progressive ? "Progressive" : "Baseline"}
+                    </p>
+                  </div>
+                </div>
+
+                {analysis.signatures.length > 0 && (
+                  <div className="space-y-2">
+                    {analysis.signatures.map((signature) => (
+                      <div
+                        key={signature.label}
+                        className="flex items-start p-3 rounded-lg bg-blue-50"
+                      >
+                        <Fingerprint className="w-4 h-4 text-blue-600 mr-2 mt-0.5 flex-shrink-0" />
+                        <div className="text-sm">
+                          <p className="font-medium text-blue-900">
+                            {signature.label}
+                          </p>
+                          <p className="text-blue-700">{signature.detail}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {analysis.tables.map((table) => (
+                    <div key={table.id}>
+                      <p className="text-sm text-gray-500 mb-1">
+                        Table {table.id} (
+                        {table.id === 0 ? "luminance" : "chrominance"})
+                      </p>
+                      <table className="text-xs font-mono text-gray-700">
+                        <tbody>
+                          {Array.from({ length: 8 }, (_, row) => (
+                            <tr key={row}>
+                              {table.values
+                                .slice(row * 8, row * 8 + 8)
+                                .map((value, col) => (
+                                  <td key={col} className="px-1 text-right">
+                                    {value}
+                                  </td>
+                                ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="md:w-64 shrink-0">
+            <h3 className="font-medium text-blue-900 mb-2">Metadata</h3>
+            {clues.length === 0 ? (
+              <p className="text-sm text-gray-500">No metadata found</p>
+            ) : (
+              <dl className="space-y-2 text-sm">
+                {clues.map((clue) => (
+                  <div key={clue.label}>
+                    <dt className="text-gray-500">{clue.label}</dt>
+                    <dd
+                      className={`break-words flex items-start ${
+                        clue.suspicious ? "text-amber-700" : "text-gray-800"
+                      }`}
+                    >
+                      {clue.suspicious && (
+                        <AlertTriangle className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+                      )}
+                      {clue.value}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,328 @@
+import React, { useMemo, useState } from "react";
+import {
+  Search,
+  Filter,
+  FilterX,
+  SortAsc,
+  SortDesc,
+} from "lucide-react";
+import { UploadedImage } from "../types";
+import {
+  DEFAULT_GALLERY_FILTER,
+  FacetValue,
+  GalleryFilter,
+  GallerySort,
+  GpsFilter,
+  SORT_OPTIONS,
+  SortKey,
+  countActiveFilters,
+  formatHour,
+  getCameraLabel,
+  getFacetValues,
+  getLensLabel,
+  getPlaceLabel,
+  parseExposureSeconds,
+} from "../utils/filterUtils";
+
+type FacetKey = "cameras" | "lenses" | "places";
+
+interface Props {
+  images: UploadedImage[];
+  visibleCount: number;
+  filter: GalleryFilter;
+  sort: GallerySort;
+  onFilterChange: (filter: GalleryFilter) => void;
+  onSortChange: (sort: GallerySort) => void;
+}
+
+export const GalleryFilters: React.FC<Props> = ({
+  images,
+  visibleCount,
+  filter,
+  sort,
+  onFilterChange,
+  onSortChange,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const cameras = useMemo(
+    () => getFacetValues(images, getCameraLabel),
+    [images],
+  );
+  const lenses = useMemo(() => getFacetValues(images, getLensLabel), [images]);
+  const places = useMemo(
+    () => getFacetValues(images, getPlaceLabel),
+    [images],
+  );
+  // Distinct shutter speeds, fastest first, as offered range bounds
+  const exposures = useMemo(() => {
+    const seconds = new Map<number, string>();
+    images.forEach(({ metadata }) => {
+      const value = parseExposureSeconds(metadata.exposure);
+      if (value !== undefined) seconds.set(value, metadata.exposure!);
+    });
+    return [...seconds.entries()].sort((a, b) => a[0] - b[0]);
+  }, [images]);
+  const activeCount = countActiveFilters(filter);
+
+  const update = (changes: Partial<GalleryFilter>) =>
+    onFilterChange({ ...filter, ...changes });
+
+  const parseNumber = (value: string): number | undefined => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+
+  const toggleFacet = (key: FacetKey, value: string) => {
+    const current = filter[key];
+    update({
+      [key]: current.includes(value)
+        ? current.filter((v) => v !== value)
+        : [...current, value],
+    });
+  };
+
+  const renderFacet = (
+    title: string,
+    key: FacetKey,
+    values: FacetValue[],
+  ) => (
+    <div>
+      <h4 className="text-xs font-medium text-gray-600 mb-1">{title}</h4>
+      <div className="flex flex-wrap gap-1 max-h-24 overflow-y-auto">
+        {values.map(({ value, count }) => (
+          <button
+            key={value}
+            onClick={() => toggleFacet(key, value)}
+            className={`px-2 py-0.5 text-xs rounded-full ${
+              filter[key].includes(value)
+                ? "bg-blue-500 text-white"
+                : "bg-white/80 text-blue-800 hover:bg-blue-100"
+            }`}
+          >
+            {value} ({count})
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const inputClassName =
+    "w-full px-2 py-1 text-sm rounded-lg border border-blue-200 bg-white/90 focus:outline-none focus:ring-2 focus:ring-blue-400";
+
+  return (
+    <div className="rounded-lg shadow-lg border border-blue-100 backdrop-blur-sm bg-white/40 p-3 mb-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[160px]">
+          <Search className="w-4 h-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            value={filter.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="Search file names and tags"
+            className={`${inputClassName} pl-8`}
+          />
+        </div>
+        <select
+          value={filter.gps}
+          onChange={(e) => update({ gps: e.target.value as GpsFilter })}
+          className="px-2 py-1 text-sm rounded-lg border border-blue-200 bg-white/90"
+        >
+          <option value="any">Any location</option>
+          <option value="with">With GPS</option>
+          <option value="without">Without GPS</option>
+        </select>
+        <select
+          value={sort.key}
+          onChange={(e) =>
+            onSortChange({ ...sort, key: e.target.value as SortKey })
+          }
+          className="px-2 py-1 text-sm rounded-lg border border-blue-200 bg-white/90"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.key} value={option.key}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() =>
+            onSortChange({
+              ...sort,
+              direction: sort.direction === "asc" ? "desc" : "asc",
+            })
+          }
+          className="p-1.5 rounded-lg bg-white/90 border border-blue-200 hover:bg-blue-50"
+          title={sort.direction === "asc" ? "Ascending" : "Descending"}
+        >
+          {sort.direction === "asc" ? (
+            <SortAsc className="w-4 h-4 text-blue-700" />
+          ) : (
+            <SortDesc className="w-4 h-4 text-blue-700" />
+          )}
+        </button>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className={`flex items-center px-2 py-1 text-sm rounded-lg ${
+            expanded || activeCount > 0
+              ? "bg-blue-500 text-white"
+              : "bg-white/90 border border-blue-200 text-blue-700 hover:bg-blue-50"
+          }`}
+        >
+          <Filter className="w-4 h-4 mr-1" />
+          Filters{activeCount > 0 ? ` (${activeCount})` : ""}
+        </button>
+        {activeCount > 0 && (
+          <button
+            onClick={() => onFilterChange(DEFAULT_GALLERY_FILTER)}
+            className="p-1.5 rounded-lg bg-white/90 border border-blue-200 hover:bg-blue-50"
+            title="Reset filters"
+          >
+            <FilterX className="w-4 h-4 text-blue-700" />
+          </button>
+        )}
+        <span className="text-sm text-gray-700 ml-auto">
+          {visibleCount} of {images.length}
+        </span>
+      </div>
+
+      {expanded && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {renderFacet("Camera", "cameras", cameras)}
+          {renderFacet("Lens", "lenses", lenses)}
+          {renderFacet("Place", "places", places)}
+          <div>
+            <h4 className="text-xs font-medium text-gray-600 mb-1">ISO</h4>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                placeholder="Min"
+                value={filter.isoMin ?? ""}
+                onChange={(e) => update({ isoMin: parseNumber(e.target.value) })}
+                className={inputClassName}
+              />
+              <input
+                type="number"
+                placeholder="Max"
+                value={filter.isoMax ?? ""}
+                onChange={(e) => update({ isoMax: parseNumber(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div>
+            <h4 className="text-xs font-medium text-gray-600 mb-1">
+              Focal length (mm)
+            </h4>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                placeholder="Min"
+                value={filter.focalMin ?? ""}
+                onChange={(e) =>
+                  update({ focalMin: parseNumber(e.target.value) })
+                }
+                className={inputClassName}
+              />
+              <input
+                type="number"
+                placeholder="Max"
+                value={filter.focalMax ?? ""}
+                onChange={(e) =>
+                  update({ focalMax: parseNumber(e.target.value) })
+                }
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div>
+            <h4 className="text-xs font-medium text-gray-600 mb-1">
+              Aperture (f/)
+            </h4>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                placeholder="Min"
+                value={filter.fNumberMin ?? ""}
+                onChange={(e) =>
+                  update({ fNumberMin: parseNumber(e.target.value) })
+                }
+                className={inputClassName}
+              />
+              <input
+                type="number"
+                placeholder="Max"
+                value={filter.fNumberMax ?? ""}
+                onChange={(e) =>
+                  update({ fNumberMax: parseNumber(e.target.value) })
+                }
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div>
+            <h4 className="text-xs font-medium text-gray-600 mb-1">
+              Shutter speed
+            </h4>
+            <div className="flex gap-2">
+              {(["exposureMin", "exposureMax"] as const).map((key) => (
+                <select
+                  key={key}
+                  value={filter[key] ?? ""}
+                  onChange={(e) => update({ [key]: parseNumber(e.target.value) })}
+                  className={inputClassName}
+                >
+                  <option value="">
+                    {key === "exposureMin" ? "Fastest" : "Slowest"}
+                  </option>
+                  {exposures.map(([seconds, label]) => (
+                    <option key={seconds} value={seconds}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              ))}
+            </div>
+          </div>
+          <div>
+            <h4 className="text-xs font-medium text-gray-600 mb-1">
+              Capture hour
+            </h4>
+            <select
+              value={filter.hour ?? ""}
+              onChange={(e) => update({ hour: parseNumber(e.target.value) })}
+              className={inputClassName}
+            >
+              <option value="">Any hour</option>
+              {Array.from({ length: 24 }, (_, hour) => (
+                <option key={hour} value={hour}>
+                  {formatHour(hour)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <h4 className="text-xs font-medium text-gray-600 mb-1">
+              Capture date
+            </h4>
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={filter.dateFrom ?? ""}
+                onChange={(e) =>
+                  update({ dateFrom: e.target.value || undefined })
+                }
+                className={inputClassName}
+              />
+              <input
+                type="date"
+                value={filter.dateTo ?? ""}
+                onChange={(e) => update({ dateTo: e.target.value || undefined })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
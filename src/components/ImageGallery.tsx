@@ -1,13 +1,18 @@
 import React from "react";
-import { MapPin, Trash2 } from "lucide-react";
+import { Check, MapPin, Pencil, Trash2 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { UploadedImage } from "../types";
+import { PrivacyReport } from "../utils/privacyUtils";
+import { PrivacyBadge } from "./PrivacyBadge";
 
 interface Props {
   images: UploadedImage[];
   onSelect: (image: UploadedImage) => void;
   selectedImage?: UploadedImage;
   onDelete?: (image: UploadedImage) => void;
+  checkedIds?: string[];
+  onToggleChecked?: (image: UploadedImage) => void;
+  privacyReports?: Map<string, PrivacyReport>;
 }
 
 export const ImageGallery: React.FC<Props> = ({
@@ -15,6 +20,9 @@ export const ImageGallery: React.FC<Props> = ({
   onSelect,
   selectedImage,
   onDelete,
+  checkedIds = [],
+  onToggleChecked,
+  privacyReports,
 }) => {
   const handleDelete = (e: React.MouseEvent, image: UploadedImage) => {
     e.stopPropagation();
@@ -27,6 +35,19 @@ export const ImageGallery: React.FC<Props> = ({
     }
   };
 
+  const handleToggleChecked = (e: React.MouseEvent, image: UploadedImage) => {
+    e.stopPropagation();
+    onToggleChecked?.(image);
+  };
+
+  const handleClick = (e: React.MouseEvent, image: UploadedImage) => {
+    if (onToggleChecked && (e.ctrlKey || e.metaKey)) {
+      onToggleChecked(image);
+      return;
+    }
+    onSelect(image);
+  };
+
   return (
     <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 p-4 rounded-lg shadow-lg border border-blue-100 backdrop-blur-sm bg-[#00000000] pt-[19px] pb-[21px]">
       <AnimatePresence>
@@ -36,11 +57,11 @@ export const ImageGallery: React.FC<Props> = ({
             initial={{ opacity: 0, scale: 0.9 }}
             animate={{ opacity: 1, scale: 1 }}
             exit={{ opacity: 0, scale: 0.9 }}
-            transition={{ delay: index * 0.1 }}
+            transition={{ delay: Math.min(index, 10) * 0.1 }}
             className={`relative group cursor-pointer rounded-lg overflow-hidden shadow-md hover:shadow-xl transition-shadow aspect-square ${
               selectedImage?.id === image.id ? "ring-4 ring-blue-500" : ""
             }`}
-            onClick={() => onSelect(image)}
+            onClick={(e) => handleClick(e, image)}
           >
             <div className="w-full h-full">
               <img
@@ -55,6 +76,20 @@ export const ImageGallery: React.FC<Props> = ({
                 <MapPin className="w-4 h-4 text-white" />
               </div>
             )}
+            {image.hasUnsavedEdits && (
+              <div
+                className="absolute top-2 left-2 bg-amber-500 p-1 rounded-full"
+                title="Unsaved metadata changes"
+              >
+                <Pencil className="w-4 h-4 text-white" />
+              </div>
+            )}
+            {privacyReports?.has(image.id) && (
+              <PrivacyBadge
+                report={privacyReports.get(image.id)!}
+                className="absolute bottom-2 right-2 z-10"
+              />
+            )}
             {onDelete && (
               <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-30 opacity-0 group-hover:opacity-100 transition-opacity">
                 <motion.button
@@ -66,6 +101,21 @@ export const ImageGallery: React.FC<Props> = ({
                 </motion.button>
               </div>
             )}
+            {onToggleChecked && (
+              <button
+                onClick={(e) => handleToggleChecked(e, image)}
+                className={`absolute bottom-2 left-2 z-10 w-6 h-6 rounded border-2 flex items-center justify-center transition-opacity ${
+                  checkedIds.includes(image.id)
+                    ? "bg-blue-500 border-blue-500 opacity-100"
+                    : "bg-white/80 border-white opacity-0 group-hover:opacity-100"
+                }`}
+                title="Select for comparison"
+              >
+                {checkedIds.includes(image.id) && (
+                  <Check className="w-4 h-4 text-white" />
+                )}
+              </button>
+            )}
           </motion.div>
         ))}
       </AnimatePresence>
@@ -1,18 +1,30 @@
 import React, { useCallback, useState } from "react";
-import { Upload, Loader2 } from "lucide-react";
+import { Upload, Loader2, X } from "lucide-react";
 import { motion } from "framer-motion";
+import { ExtractionProgress } from "../utils/extractionPool";
+import { IMAGE_FILE_TYPES, detectFileFormat } from "../utils/formatUtils";
 
 interface Props {
   onImagesUploaded: (images: File[]) => void;
+  progress?: ExtractionProgress;
+  onCancel?: () => void;
 }
 
-export const ImageUploader: React.FC<Props> = ({ onImagesUploaded }) => {
+export const ImageUploader: React.FC<Props> = ({
+  onImagesUploaded,
+  progress,
+  onCancel,
+}) => {
   const [isUploading, setIsUploading] = useState(false);
+  // Progress also arrives while a restored session is being prepared
+  const isBusy = isUploading || !!progress;
 
   const handleFiles = useCallback(
     async (files: File[]) => {
-      const imageFiles = Array.from(files).filter((file) =>
-        file.type.startsWith("image/"),
+      // RAW files often have no MIME type, so the content decides
+      const formats = await Promise.all(files.map(detectFileFormat));
+      const imageFiles = files.filter(
+        (file, index) => formats[index] || file.type.startsWith("image/"),
       );
 
       if (imageFiles.length > 0) {
@@ -54,21 +66,52 @@ export const ImageUploader: React.FC<Props> = ({ onImagesUploaded }) => {
         onDrop={onDrop}
         onDragOver={(e) => e.preventDefault()}
         className={`border-4 border-dashed rounded-xl p-8 text-center transition-all ${
-          isUploading
+          isBusy
             ? "border-blue-400 bg-blue-50"
             : "border-blue-200 hover:border-blue-400 hover:bg-blue-50"
         }`}
       >
-        {isUploading ? (
+        {isBusy ? (
           <div className="flex flex-col items-center">
             <Loader2 className="w-16 h-16 text-blue-500 animate-spin" />
 
             <h2 className="text-xl font-semibold mt-4 text-blue-700">
               Processing images...
             </h2>
-            <p className="text-blue-600 mt-2">
-              Please wait while we extract the metadata
-            </p>
+            {progress ? (
+              <div className="w-full max-w-md mt-3">
+                <div className="h-2 rounded-full bg-blue-100 overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 transition-all"
+                    style={{
+                      width: `${(progress.done / Math.max(progress.total, 1)) * 100}%`,
+                    }}
+                  />
+                </div>
+                <p className="text-blue-600 mt-2 text-sm">
+                  {progress.stage && `${progress.stage}: `}
+                  {progress.done} of {progress.total}
+                  {progress.current && (
+                    <span className="block truncate text-gray-600">
+                      {progress.current}
+                    </span>
+                  )}
+                </p>
+              </div>
+            ) : (
+              <p className="text-blue-600 mt-2">
+                Please wait while we extract the metadata
+              </p>
+            )}
+            {onCancel && (
+              <button
+                onClick={onCancel}
+                className="flex items-center mt-4 px-4 py-1.5 text-sm rounded-lg bg-white border border-blue-200 text-blue-700 hover:bg-blue-100 transition-colors"
+              >
+                <X className="w-4 h-4 mr-1" />
+                Cancel
+              </button>
+            )}
           </div>
         ) : (
           <>
@@ -95,7 +138,7 @@ export const ImageUploader: React.FC<Props> = ({ onImagesUploaded }) => {
               <input
                 type="file"
                 multiple
-                accept="image/*"
+                accept={IMAGE_FILE_TYPES}
                 onChange={onFileSelect}
                 className="hidden"
               />
@@ -1,8 +1,56 @@
-import React, { useEffect } from "react";
-import { MapContainer, TileLayer, Marker, Popup, useMap } from "react-leaflet";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  MapContainer,
+  TileLayer,
+  Marker,
+  Circle,
+  CircleMarker,
+  Polygon,
+  Polyline,
+  Tooltip,
+  useMap,
+  useMapEvents,
+} from "react-leaflet";
+import {
+  Maximize2,
+  Route,
+  Group,
+  Layers,
+  WifiOff,
+  Footprints,
+  Check,
+  X,
+  MapPinned,
+  Undo2,
+} from "lucide-react";
 import { UploadedImage } from "../types";
 import "leaflet/dist/leaflet.css";
-import { Icon } from "leaflet";
+import {
+  Coords,
+  GridLayer,
+  Icon,
+  Map as LeafletMap,
+  Marker as LeafletMarker,
+  divIcon,
+  latLngBounds,
+} from "leaflet";
+import markerIcon from "leaflet/dist/images/marker-icon.png";
+import markerIcon2x from "leaflet/dist/images/marker-icon-2x.png";
+import markerShadow from "leaflet/dist/images/marker-shadow.png";
+import { TileSourceDialog } from "./TileSourceDialog";
+import { getCameraLabel } from "../utils/filterUtils";
+import {
+  TileSource,
+  clusterImages,
+  fromTileCoordinates,
+  getGridStep,
+  getPhotoTrail,
+  getScreenAngle,
+  getViewCone,
+  toTileCoordinates,
+} from "../utils/mapUtils";
+import { getHorizontalFieldOfView } from "../utils/photoCalcUtils";
+import { TrackReview } from "../utils/trackUtils";
 
 // Estilos adicionales inline para arreglos móviles
 const mapStyles = `
@@ -17,14 +65,41 @@ const mapStyles = `
 
 // Fix default marker icon issue
 const defaultIcon = new Icon({
-  iconUrl: "https://unpkg.com/leaflet@1.7.1/dist/images/marker-icon.png",
-  shadowUrl: "https://unpkg.com/leaflet@1.7.1/dist/images/marker-shadow.png",
+  iconUrl: markerIcon,
+  iconRetinaUrl: markerIcon2x,
+  shadowUrl: markerShadow,
   iconSize: [25, 41],
   iconAnchor: [12, 41],
   popupAnchor: [1, -34],
   shadowSize: [41, 41],
 });
 
+const CLUSTER_RADIUS = 60;
+// Failed tiles, with none loaded, before falling back to the coordinate grid
+const TILE_FAILURE_LIMIT = 4;
+// Segments shorter than this on screen get no direction arrow
+const MIN_ARROW_SEGMENT = 40;
+// Screen length of the view-direction cone, in pixels
+const VIEW_CONE_LENGTH = 70;
+// Horizontal angle assumed when the lens can't be worked out, roughly a phone's main camera
+const DEFAULT_FIELD_OF_VIEW = 65;
+
+const createClusterIcon = (count: number) =>
+  divIcon({
+    html: `<div class="flex items-center justify-center w-9 h-9 rounded-full bg-blue-500/90 border-2 border-white text-white text-sm font-semibold shadow-lg">${count}</div>`,
+    className: "",
+    iconSize: [36, 36],
+    iconAnchor: [18, 18],
+  });
+
+const createArrowIcon = (angle: number) =>
+  divIcon({
+    html: `<div class="text-blue-700 text-base leading-none" style="transform: rotate(${angle}deg)">&#10148;</div>`,
+    className: "",
+    iconSize: [16, 16],
+    iconAnchor: [8, 8],
+  });
+
 // Componente para inyectar estilos CSS
 function MapStyles() {
   useEffect(() => {
@@ -90,7 +165,7 @@ function SetViewOnChange({ center }: { center: { latitude: number; longitude: nu
 
   useEffect(() => {
     if (center) {
-      map.setView([center.latitude, center.longitude], 13);
+      map.setView([center.latitude, center.longitude], map.getZoom());
     }
   }, [center, map]);
 
@@ -123,32 +198,564 @@ function MobileFixes() {
   return null;
 }
 
+// Offline stand-in for map tiles: graticule lines labelled in degrees
+class CoordinateGridLayer extends GridLayer {
+  createTile(coords: Coords): HTMLElement {
+    const tile = document.createElement("canvas");
+    const size = this.getTileSize();
+    tile.width = size.x;
+    tile.height = size.y;
+    const ctx = tile.getContext("2d")!;
+    ctx.fillStyle = "#f1f5f9";
+    ctx.fillRect(0, 0, size.x, size.y);
+
+    const step = getGridStep(coords.z);
+    const decimals = Math.max(0, Math.ceil(-Math.log10(step)));
+    const northWest = fromTileCoordinates(coords.x, coords.y, coords.z);
+    const southEast = fromTileCoordinates(coords.x + 1, coords.y + 1, coords.z);
+    ctx.strokeStyle = "#94a3b8";
+    ctx.fillStyle = "#475569";
+    ctx.font = "10px sans-serif";
+    ctx.lineWidth = 1;
+
+    for (
+      let i = Math.ceil(northWest.longitude / step);
+      i * step < southEast.longitude;
+      i++
+    ) {
+      const longitude = i * step;
+      const x =
+        (toTileCoordinates(0, longitude, coords.z).x - coords.x) * size.x;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, size.y);
+      ctx.stroke();
+      ctx.fillText(`${longitude.toFixed(decimals)}°`, x + 2, size.y - 4);
+    }
+
+    for (
+      let i = Math.ceil(southEast.latitude / step);
+      i * step < northWest.latitude;
+      i++
+    ) {
+      const latitude = i * step;
+      const y =
+        (toTileCoordinates(latitude, 0, coords.z).y - coords.y) * size.y;
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(size.x, y);
+      ctx.stroke();
+      ctx.fillText(`${latitude.toFixed(decimals)}°`, 2, y - 2);
+    }
+
+    return tile;
+  }
+}
+
+function CoordinateGrid({ maxZoom }: { maxZoom: number }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const layer = new CoordinateGridLayer({ maxZoom });
+    layer.addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map, maxZoom]);
+
+  return null;
+}
+
+function useMapZoom() {
+  const map = useMap();
+  const [zoom, setZoom] = useState(map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+  return zoom;
+}
+
+function ImageTooltip({
+  image,
+  offset = [0, -36],
+}: {
+  image: UploadedImage;
+  // Default clears the pin icon
+  offset?: [number, number];
+}) {
+  return (
+    <Tooltip direction="top" offset={offset}>
+      <div className="flex gap-2 items-center">
+        <img
+          src={image.preview}
+          alt={image.metadata.fileName}
+          className="w-20 h-20 object-cover rounded"
+          crossOrigin="anonymous"
+          loading="lazy"
+        />
+        <div className="text-xs">
+          <div className="font-semibold">{image.metadata.fileName}</div>
+          <div>{image.metadata.dateTime || "No capture time"}</div>
+          <div>{getCameraLabel(image)}</div>
+        </div>
+      </div>
+    </Tooltip>
+  );
+}
+
+// Direction cone and positioning accuracy around a single marker. Magnetic
+// headings are dashed since they aren't corrected for declination.
+function CameraView({ image }: { image: UploadedImage }) {
+  const map = useMap();
+  const zoom = useMapZoom();
+  const { latitude, longitude, direction, directionRef, horizontalError } =
+    image.metadata.gps!;
+
+  const cone = useMemo(() => {
+    if (direction === undefined) return undefined;
+    const fieldOfView =
+      getHorizontalFieldOfView(image.tags, image.metadata.orientation) ??
+      DEFAULT_FIELD_OF_VIEW;
+    return getViewCone(
+      map.project([latitude, longitude], zoom),
+      direction,
+      fieldOfView,
+      VIEW_CONE_LENGTH,
+    ).map((point) => {
+      const { lat, lng } = map.unproject([point.x, point.y], zoom);
+      return [lat, lng] as [number, number];
+    });
+  }, [map, zoom, latitude, longitude, direction, image]);
+
+  return (
+    <>
+      {horizontalError !== undefined && (
+        <Circle
+          center={[latitude, longitude]}
+          radius={horizontalError}
+          interactive={false}
+          pathOptions={{
+            color: "#2563eb",
+            weight: 1,
+            fillColor: "#2563eb",
+            fillOpacity: 0.08,
+          }}
+        />
+      )}
+      {cone && (
+        <Polygon
+          positions={cone}
+          interactive={false}
+          pathOptions={{
+            color: "#dc2626",
+            weight: 1.5,
+            dashArray: directionRef === "magnetic" ? "4 4" : undefined,
+            fillColor: "#dc2626",
+            fillOpacity: 0.2,
+          }}
+        />
+      )}
+    </>
+  );
+}
+
+function PlacementClickHandler({
+  onClick,
+}: {
+  onClick: (latitude: number, longitude: number) => void;
+}) {
+  useMapEvents({ click: (e) => onClick(e.latlng.lat, e.latlng.lng) });
+  return null;
+}
+
+function ImageMarkers({
+  images,
+  clustered,
+  onMarkerClick,
+  onMarkerDrag,
+}: {
+  images: UploadedImage[];
+  clustered: boolean;
+  onMarkerClick: (image: UploadedImage) => void;
+  onMarkerDrag?: (
+    image: UploadedImage,
+    latitude: number,
+    longitude: number,
+  ) => void;
+}) {
+  const map = useMap();
+  const zoom = useMapZoom();
+
+  const clusters = useMemo(
+    () =>
+      clustered && zoom < map.getMaxZoom()
+        ? clusterImages(
+            images,
+            (latitude, longitude) => map.project([latitude, longitude], zoom),
+            CLUSTER_RADIUS,
+          )
+        : images.map((image) => ({
+            items: [image],
+            latitude: image.metadata.gps!.latitude,
+            longitude: image.metadata.gps!.longitude,
+          })),
+    [images, clustered, zoom, map],
+  );
+
+  return (
+    <>
+      {clusters.map((cluster) => {
+        if (cluster.items.length === 1) {
+          const image = cluster.items[0];
+          return (
+            <React.Fragment key={image.id}>
+              <CameraView image={image} />
+              <Marker
+                position={[cluster.latitude, cluster.longitude]}
+                icon={defaultIcon}
+                draggable={!!onMarkerDrag}
+                eventHandlers={{
+                  click: () => onMarkerClick(image),
+                  dragend: (e) => {
+                    const { lat, lng } = (
+                      e.target as LeafletMarker
+                    ).getLatLng();
+                    onMarkerDrag?.(image, lat, lng);
+                  },
+                }}
+              >
+                <ImageTooltip image={image} />
+              </Marker>
+            </React.Fragment>
+          );
+        }
+
+        const bounds = latLngBounds(
+          cluster.items.map((image) => [
+            image.metadata.gps!.latitude,
+            image.metadata.gps!.longitude,
+          ]),
+        );
+        return (
+          <Marker
+            key={cluster.items.map((image) => image.id).join(",")}
+            position={[cluster.latitude, cluster.longitude]}
+            icon={createClusterIcon(cluster.items.length)}
+            eventHandlers={{
+              click: () => map.fitBounds(bounds, { padding: [40, 40] }),
+            }}
+          >
+            <Tooltip direction="top">
+              {cluster.items.length} photos, click to zoom in
+            </Tooltip>
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
+
+function PhotoTrail({ trail }: { trail: UploadedImage[] }) {
+  const map = useMap();
+  const zoom = useMapZoom();
+
+  const positions = useMemo(
+    () =>
+      trail.map(
+        (image) =>
+          [image.metadata.gps!.latitude, image.metadata.gps!.longitude] as [
+            number,
+            number,
+          ],
+      ),
+    [trail],
+  );
+
+  const arrows = useMemo(
+    () =>
+      positions.slice(1).flatMap((to, index) => {
+        const from = positions[index];
+        const start = map.project(from, zoom);
+        const end = map.project(to, zoom);
+        if (start.distanceTo(end) < MIN_ARROW_SEGMENT) return [];
+        return [
+          {
+            key: `${trail[index].id}-${trail[index + 1].id}`,
+            position: [(from[0] + to[0]) / 2, (from[1] + to[1]) / 2] as [
+              number,
+              number,
+            ],
+            angle: getScreenAngle(start, end),
+          },
+        ];
+      }),
+    [positions, trail, zoom, map],
+  );
+
+  return (
+    <>
+      <Polyline
+        positions={positions}
+        pathOptions={{ color: "#2563eb", weight: 3, opacity: 0.7 }}
+      />
+      {arrows.map((arrow) => (
+        <Marker
+          key={arrow.key}
+          position={arrow.position}
+          icon={createArrowIcon(arrow.angle)}
+          interactive={false}
+        />
+      ))}
+    </>
+  );
+}
+
+function TrackPreview({
+  review,
+  images,
+}: {
+  review: TrackReview;
+  images: UploadedImage[];
+}) {
+  const map = useMap();
+
+  const positions = useMemo(
+    () =>
+      review.track.points.map(
+        (point) => [point.latitude, point.longitude] as [number, number],
+      ),
+    [review.track],
+  );
+
+  useEffect(() => {
+    map.fitBounds(latLngBounds(positions), { padding: [40, 40], maxZoom: 16 });
+  }, [map, positions]);
+
+  return (
+    <>
+      <Polyline
+        positions={positions}
+        pathOptions={{ color: "#d97706", weight: 3, opacity: 0.8 }}
+      />
+      {review.matches.map((match) => {
+        const image = images.find((img) => img.id === match.imageId);
+        return (
+          <CircleMarker
+            key={match.imageId}
+            center={[match.latitude, match.longitude]}
+            radius={7}
+            pathOptions={{
+              color: "#ffffff",
+              weight: 2,
+              fillColor: "#d97706",
+              fillOpacity: 1,
+            }}
+          >
+            {image && <ImageTooltip image={image} offset={[0, -6]} />}
+          </CircleMarker>
+        );
+      })}
+    </>
+  );
+}
+
 interface Props {
   images: UploadedImage[];
   selectedImage?: UploadedImage;
   onMarkerClick: (image: UploadedImage) => void;
+  tileSource: TileSource;
+  onTileSourceChange: (tileSource: TileSource) => void;
+  trackReview?: TrackReview;
+  onAcceptTrack?: () => void;
+  onAdjustTrack?: () => void;
+  onDiscardTrack?: () => void;
+  onPlaceImage?: (
+    image: UploadedImage,
+    latitude: number,
+    longitude: number,
+  ) => void;
+  onUndoPlacement?: () => void;
+  canUndoPlacement?: boolean;
 }
 
+const WORLD_CENTER = { latitude: 20, longitude: 0 };
+
 export const Map: React.FC<Props> = ({
   images,
   selectedImage,
   onMarkerClick,
+  tileSource,
+  onTileSourceChange,
+  trackReview,
+  onAcceptTrack,
+  onAdjustTrack,
+  onDiscardTrack,
+  onPlaceImage,
+  onUndoPlacement,
+  canUndoPlacement,
 }) => {
-  const gpsImages = images.filter((img) => img.metadata.gps);
+  const [map, setMap] = useState<LeafletMap | null>(null);
+  const [clustered, setClustered] = useState(true);
+  const [showTrail, setShowTrail] = useState(true);
+  const [showTileSettings, setShowTileSettings] = useState(false);
+  const [placing, setPlacing] = useState(false);
+  const [tilesOffline, setTilesOffline] = useState(false);
+  const tileStats = useRef({ loaded: 0, failed: 0 });
+
+  const retryTiles = () => {
+    tileStats.current = { loaded: 0, failed: 0 };
+    setTilesOffline(false);
+  };
+
+  useEffect(() => {
+    tileStats.current = { loaded: 0, failed: 0 };
+    setTilesOffline(false);
+  }, [tileSource]);
+
+  useEffect(() => {
+    map?.setMaxZoom(tileSource.maxZoom);
+  }, [map, tileSource.maxZoom]);
 
-  if (gpsImages.length === 0) return null;
+  const gpsImages = useMemo(
+    () => images.filter((img) => img.metadata.gps),
+    [images],
+  );
+  const trail = useMemo(() => getPhotoTrail(gpsImages), [gpsImages]);
+
+  const handlePlacementClick = (latitude: number, longitude: number) => {
+    if (selectedImage && !selectedImage.metadata.gps) {
+      onPlaceImage?.(selectedImage, latitude, longitude);
+    }
+  };
 
-  const center = selectedImage?.metadata.gps || {
-    latitude: gpsImages[0].metadata.gps!.latitude,
-    longitude: gpsImages[0].metadata.gps!.longitude,
+  const handleFitAll = () => {
+    map?.fitBounds(
+      latLngBounds(
+        gpsImages.map((image) => [
+          image.metadata.gps!.latitude,
+          image.metadata.gps!.longitude,
+        ]),
+      ),
+      { padding: [40, 40], maxZoom: 16 },
+    );
   };
 
+  const toolbarButtonClassName = (active: boolean) =>
+    `p-1.5 rounded-lg shadow-md ${
+      active
+        ? "bg-blue-500 text-white"
+        : "bg-white text-blue-700 hover:bg-blue-50"
+    }`;
+
+  const center =
+    selectedImage?.metadata.gps ||
+    gpsImages[0]?.metadata.gps ||
+    trackReview?.track.points[0] ||
+    WORLD_CENTER;
+
   return (
     <div className="w-full h-[400px] rounded-lg overflow-hidden relative z-[500]">
       <MapStyles />
+      <div className="absolute top-2 right-2 z-[1000] flex gap-1">
+        {onPlaceImage && (
+          <button
+            onClick={() => setPlacing(!placing)}
+            className={toolbarButtonClassName(placing)}
+            title="Place or move photos on the map"
+          >
+            <MapPinned className="w-4 h-4" />
+          </button>
+        )}
+        {canUndoPlacement && (
+          <button
+            onClick={onUndoPlacement}
+            className={toolbarButtonClassName(false)}
+            title="Undo last location change"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={() => setClustered(!clustered)}
+          className={toolbarButtonClassName(clustered && !placing)}
+          title="Cluster nearby photos"
+          disabled={placing}
+        >
+          <Group className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setShowTrail(!showTrail)}
+          className={toolbarButtonClassName(showTrail)}
+          title="Show photo trail in capture order"
+          disabled={trail.length < 2}
+        >
+          <Route className="w-4 h-4" />
+        </button>
+        <button
+          onClick={handleFitAll}
+          className={toolbarButtonClassName(false)}
+          title="Fit all photos"
+          disabled={gpsImages.length === 0}
+        >
+          <Maximize2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setShowTileSettings(true)}
+          className={toolbarButtonClassName(false)}
+          title="Map tiles"
+        >
+          <Layers className="w-4 h-4" />
+        </button>
+      </div>
+      {trackReview && (
+        <div className="absolute top-2 left-2 z-[1000] flex items-center gap-2 px-2 py-1 rounded-lg bg-white/90 shadow-md text-xs text-gray-700">
+          <Footprints className="w-4 h-4 text-amber-600" />
+          {trackReview.matches.length} positions from {trackReview.track.name}
+          <button
+            onClick={onAcceptTrack}
+            className="flex items-center text-green-700 hover:underline"
+          >
+            <Check className="w-3 h-3 mr-0.5" />
+            Accept
+          </button>
+          <button
+            onClick={onAdjustTrack}
+            className="text-blue-600 hover:underline"
+          >
+            Adjust
+          </button>
+          <button
+            onClick={onDiscardTrack}
+            className="flex items-center text-red-600 hover:underline"
+          >
+            <X className="w-3 h-3 mr-0.5" />
+            Discard
+          </button>
+        </div>
+      )}
+      {placing && !trackReview && (
+        <div className="absolute top-2 left-2 z-[1000] flex items-center gap-2 px-2 py-1 rounded-lg bg-white/90 shadow-md text-xs text-gray-700">
+          <MapPinned className="w-4 h-4 text-blue-600" />
+          {selectedImage && !selectedImage.metadata.gps
+            ? `Click the map to place ${selectedImage.metadata.fileName}`
+            : "Drag a marker to correct it, or select a photo without GPS to place it"}
+        </div>
+      )}
+      {tilesOffline && (
+        <div className="absolute bottom-2 left-2 z-[1000] flex items-center gap-2 px-2 py-1 rounded-lg bg-white/90 shadow-md text-xs text-gray-700">
+          <WifiOff className="w-4 h-4 text-amber-600" />
+          Map tiles unreachable, showing a coordinate grid
+          <button
+            onClick={retryTiles}
+            className="text-blue-600 hover:underline"
+          >
+            Retry
+          </button>
+        </div>
+      )}
       <MapContainer
+        ref={setMap}
         center={[center.latitude, center.longitude]}
-        zoom={13}
+        zoom={center === WORLD_CENTER ? 2 : Math.min(13, tileSource.maxZoom)}
+        maxZoom={tileSource.maxZoom}
         style={{ width: "100%", height: "100%" }}
         trackResize={true}
         zoomControl={false}
@@ -161,36 +768,47 @@ export const Map: React.FC<Props> = ({
         <MapResizer />
         <MobileFixes />
         <SetViewOnChange center={center} />
-        <TileLayer
-          url="https://tile.openstreetmap.org/{z}/{x}/{y}.png"
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-          crossOrigin="anonymous"
-        />
-
-        {gpsImages.map((image) => (
-          <Marker
-            key={image.id}
-            position={[
-              image.metadata.gps!.latitude,
-              image.metadata.gps!.longitude,
-            ]}
-            icon={defaultIcon}
+        {tilesOffline ? (
+          <CoordinateGrid maxZoom={tileSource.maxZoom} />
+        ) : (
+          <TileLayer
+            key={tileSource.url}
+            url={tileSource.url}
+            attribution={tileSource.attribution}
+            maxZoom={tileSource.maxZoom}
+            crossOrigin="anonymous"
             eventHandlers={{
-              click: () => onMarkerClick(image),
+              tileload: () => {
+                tileStats.current.loaded++;
+              },
+              tileerror: () => {
+                const stats = tileStats.current;
+                stats.failed++;
+                if (stats.loaded === 0 && stats.failed >= TILE_FAILURE_LIMIT) {
+                  setTilesOffline(true);
+                }
+              },
             }}
-          >
-            <Popup>
-              <img
-                src={image.preview}
-                alt={image.metadata.fileName}
-                className="w-32 h-32 object-cover"
-                crossOrigin="anonymous"
-                loading="lazy"
-              />
-            </Popup>
-          </Marker>
-        ))}
+          />
+        )}
+
+        {showTrail && trail.length >= 2 && <PhotoTrail trail={trail} />}
+        <ImageMarkers
+          images={gpsImages}
+          clustered={clustered && !placing}
+          onMarkerClick={onMarkerClick}
+          onMarkerDrag={placing ? onPlaceImage : undefined}
+        />
+        {placing && <PlacementClickHandler onClick={handlePlacementClick} />}
+        {trackReview && <TrackPreview review={trackReview} images={images} />}
       </MapContainer>
+      {showTileSettings && (
+        <TileSourceDialog
+          tileSource={tileSource}
+          onSave={onTileSourceChange}
+          onClose={() => setShowTileSettings(false)}
+        />
+      )}
     </div>
   );
 };
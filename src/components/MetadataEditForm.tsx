@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import { Save, X } from "lucide-react";
+import { MetadataEdits, UploadedImage } from "../types";
+import { exifDateToIso, isoToExifDate } from "../utils/dateUtils";
+import { getRecordedModel } from "../utils/editUtils";
+
+interface Props {
+  image: UploadedImage;
+  onSave: (edits: MetadataEdits) => void;
+  onCancel: () => void;
+}
+
+export const MetadataEditForm: React.FC<Props> = ({
+  image,
+  onSave,
+  onCancel,
+}) => {
+  const { metadata } = image;
+  const [dateTime, setDateTime] = useState(exifDateToIso(metadata.dateTime));
+  const [make, setMake] = useState(metadata.make ?? "");
+  // The Model tag on its own, not the label prefixed with the make
+  const recordedModel = getRecordedModel(image);
+  const [model, setModel] = useState(recordedModel);
+  const [lens, setLens] = useState(metadata.lens ?? "");
+  const [latitude, setLatitude] = useState(
+    metadata.gps?.latitude.toString() ?? "",
+  );
+  const [longitude, setLongitude] = useState(
+    metadata.gps?.longitude.toString() ?? "",
+  );
+  const [error, setError] = useState<string>();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    let gps: MetadataEdits["gps"] = null;
+    if (latitude.trim() || longitude.trim()) {
+      const lat = parseFloat(latitude);
+      const lon = parseFloat(longitude);
+      if (isNaN(lat) || lat < -90 || lat > 90) {
+        setError("Latitude must be between -90 and 90");
+        return;
+      }
+      if (isNaN(lon) || lon < -180 || lon > 180) {
+        setError("Longitude must be between -180 and 180");
+        return;
+      }
+      gps = { latitude: lat, longitude: lon };
+    }
+
+    // Only fields that actually changed become edits
+    const edits: MetadataEdits = {};
+    if (dateTime !== exifDateToIso(metadata.dateTime)) {
+      edits.dateTime = isoToExifDate(dateTime);
+    }
+    if (make.trim() !== (metadata.make ?? "")) edits.make = make.trim();
+    if (model.trim() !== recordedModel) edits.model = model.trim();
+    if (lens.trim() !== (metadata.lens ?? "")) edits.lens = lens.trim();
+    if (
+      gps?.latitude !== metadata.gps?.latitude ||
+      gps?.longitude !== metadata.gps?.longitude
+    ) {
+      edits.gps = gps;
+    }
+
+    onSave(edits);
+  };
+
+  const inputClassName =
+    "w-full px-3 py-1.5 rounded-lg border border-blue-200 bg-white/90 text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-400";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <label className="block text-sm text-blue-900">
+        Date taken
+        <input
+          type="datetime-local"
+          step={1}
+          value={dateTime}
+          onChange={(e) => setDateTime(e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+      <label className="block text-sm text-indigo-900">
+        Make
+        <input
+          value={make}
+          onChange={(e) => setMake(e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+      <label className="block text-sm text-indigo-900">
+        Model
+        <input
+          value={model}
+          onChange={(e) => setModel(e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+      <label className="block text-sm text-purple-900">
+        Lens
+        <input
+          value={lens}
+          onChange={(e) => setLens(e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block text-sm text-green-900">
+          Latitude
+          <input
+            type="number"
+            step="any"
+            value={latitude}
+            onChange={(e) => setLatitude(e.target.value)}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block text-sm text-green-900">
+          Longitude
+          <input
+            type="number"
+            step="any"
+            value={longitude}
+            onChange={(e) => setLongitude(e.target.value)}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-2 pt-2">
+        <button
+          type="submit"
+          className="flex items-center bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Apply
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center px-4 py-2 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+        >
+          <X className="w-4 h-4 mr-2" />
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -1,27 +1,153 @@
-import React from "react";
-import { Download, Camera, Calendar, MapPin, Sliders } from "lucide-react";
+import React, { useEffect, useState } from "react";
+import {
+  Download,
+  Camera,
+  Calendar,
+  MapPin,
+  Sliders,
+  ShieldCheck,
+  ScanSearch,
+  Pencil,
+  FileDown,
+  ListTree,
+  AlertTriangle,
+  RotateCcw,
+  RotateCw,
+  FlipHorizontal,
+  FlipVertical,
+} from "lucide-react";
 import { motion } from "framer-motion";
-import { UploadedImage } from "../types";
+import { MetadataEdits, NormalizedMetadata, UploadedImage } from "../types";
+import { downloadBlob } from "../utils/downloadUtils";
+import { formatPlace } from "../utils/geocodeUtils";
+import { IMAGE_FORMATS } from "../utils/formatUtils";
+import {
+  formatDuration,
+  GPS_POSITION_OFFSET,
+  isGuessedOffset,
+} from "../utils/dateUtils";
+import { withOrientedPreview } from "../utils/previewUtils";
+import { getDerivedValues } from "../utils/photoCalcUtils";
+import {
+  describeSource,
+  formatDimensions,
+  formatResolution,
+} from "../utils/exifUtils";
+import {
+  ORIENTATION_LABELS,
+  flipOrientation,
+  normalizeOrientation,
+  rotateOrientation,
+} from "../utils/orientationUtils";
+import {
+  applyMetadataEdits,
+  canWriteEdits,
+  GPS_SOURCE_LABELS,
+  getEditedFileName,
+  getGpsSource,
+  writeMetadataEdits,
+} from "../utils/editUtils";
+import { canSanitize } from "../utils/sanitizeUtils";
+import { SanitizeDialog } from "./SanitizeDialog";
+import { MetadataEditForm } from "./MetadataEditForm";
+import { RawTagExplorer } from "./RawTagExplorer";
+import { EmbeddedPreviews } from "./EmbeddedPreviews";
+import { ForensicsView } from "./ForensicsView";
 
 interface Props {
   image?: UploadedImage;
+  onUpdate?: (image: UploadedImage) => void;
 }
 
-export const MetadataPanel: React.FC<Props> = ({ image }) => {
+export const MetadataPanel: React.FC<Props> = ({ image, onUpdate }) => {
+  const [showSanitize, setShowSanitize] = useState(false);
+  const [showRawTags, setShowRawTags] = useState(false);
+  const [showForensics, setShowForensics] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editError, setEditError] = useState<string>();
+
+  useEffect(() => {
+    setIsEditing(false);
+    setEditError(undefined);
+  }, [image?.id]);
+
   if (!image) return null;
 
+  const handleSaveEdits = (edits: MetadataEdits) => {
+    setIsEditing(false);
+    if (Object.keys(edits).length > 0) {
+      onUpdate?.(applyMetadataEdits(image, edits));
+    }
+  };
+
+  // Only the Orientation tag changes; the pixels stay as they are
+  const handleReorient = async (orientation: number) => {
+    setEditError(undefined);
+    try {
+      const updated = await withOrientedPreview(
+        applyMetadataEdits(image, { orientation }),
+        orientation,
+      );
+      URL.revokeObjectURL(image.preview);
+      onUpdate?.(updated);
+    } catch (error) {
+      setEditError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const derivedValues = getDerivedValues(image.tags);
+
+  // Hover text naming the tag a value was read from
+  const sourceTitle = (field: keyof NormalizedMetadata) => {
+    const sourced = image.metadata.provenance?.[field];
+    if (sourced) return describeSource(sourced);
+    return image.edits?.[field as keyof MetadataEdits] !== undefined
+      ? "Edited"
+      : undefined;
+  };
+
+  const canReorient = !!onUpdate && canWriteEdits(image);
+  const orientation = image.metadata.orientation;
+  const orientationButtons = [
+    {
+      title: "Rotate left",
+      icon: RotateCcw,
+      value: rotateOrientation(orientation, "left"),
+    },
+    {
+      title: "Rotate right",
+      icon: RotateCw,
+      value: rotateOrientation(orientation, "right"),
+    },
+    {
+      title: "Flip horizontally",
+      icon: FlipHorizontal,
+      value: flipOrientation(orientation, "horizontal"),
+    },
+    {
+      title: "Flip vertically",
+      icon: FlipVertical,
+      value: flipOrientation(orientation, "vertical"),
+    },
+  ];
+
+  const downloadEditedFile = async () => {
+    if (!image.edits) return;
+    setEditError(undefined);
+    try {
+      const blob = await writeMetadataEdits(image.file, image.edits);
+      downloadBlob(blob, getEditedFileName(image.file.name));
+      onUpdate?.({ ...image, hasUnsavedEdits: false });
+    } catch (error) {
+      setEditError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
   const downloadMetadata = () => {
     const blob = new Blob([JSON.stringify(image.metadata, null, 2)], {
       type: "application/json",
     });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `${image.metadata.fileName}-metadata.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `${image.metadata.fileName}-metadata.json`);
   };
 
   return (
@@ -32,77 +158,349 @@ export const MetadataPanel: React.FC<Props> = ({ image }) => {
     >
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-xl font-semibold text-blue-900">Image Metadata</h2>
-        <button
-          onClick={downloadMetadata}
-          className="bg-blue-500 text-white p-2 rounded-lg hover:bg-blue-600 transition-colors"
-          title="Download Metadata"
-        >
-          <Download className="w-5 h-5" />
-        </button>
+        <div className="flex gap-2">
+          {onUpdate && (
+            <button
+              onClick={() => setIsEditing(!isEditing)}
+              disabled={!canWriteEdits(image)}
+              className={`p-2 rounded-lg transition-colors ${
+                isEditing
+                  ? "bg-blue-700 text-white"
+                  : "bg-blue-500 text-white hover:bg-blue-600"
+              } disabled:opacity-50 disabled:cursor-not-allowed`}
+              title={
+                canWriteEdits(image)
+                  ? "Edit Metadata"
+                  : "Metadata can only be edited and saved in JPEG files"
+              }
+            >
+              <Pencil className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={() => setShowRawTags(true)}
+            className="bg-blue-500 text-white p-2 rounded-lg hover:bg-blue-600 transition-colors"
+            title="Show All Tags"
+          >
+            <ListTree className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowForensics(true)}
+            className="bg-blue-500 text-white p-2 rounded-lg hover:bg-blue-600 transition-colors"
+            title="Forensics"
+          >
+            <ScanSearch className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowSanitize(true)}
+            disabled={!canSanitize(image)}
+            className="bg-blue-500 text-white p-2 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={
+              canSanitize(image)
+                ? "Sanitize and Download"
+                : "Only JPEG files can be sanitized"
+            }
+          >
+            <ShieldCheck className="w-5 h-5" />
+          </button>
+          <button
+            onClick={downloadMetadata}
+            className="bg-blue-500 text-white p-2 rounded-lg hover:bg-blue-600 transition-colors"
+            title="Download Metadata"
+          >
+            <Download className="w-5 h-5" />
+          </button>
+        </div>
       </div>
 
-      <div className="space-y-6">
-        <div className="bg-blue-50/80 backdrop-blur-sm p-4 rounded-lg">
-          <div className="flex items-center mb-2">
-            <Calendar className="w-5 h-5 text-blue-600 mr-2" />
+      {image.edits && !canWriteEdits(image) && (
+        <p className="mb-6 p-3 rounded-lg bg-amber-50/90 border border-amber-200 text-sm text-amber-800">
+          Changes to this {image.metadata.format?.toUpperCase() ?? "file"} are kept
+          in the gallery and exports only. Edited files can be downloaded for
+          JPEG images.
+        </p>
+      )}
 
-            <h3 className="font-medium text-blue-900">File Information</h3>
-          </div>
-          <p className="text-blue-800">{image.metadata.fileName}</p>
-          <p className="text-blue-700">{image.metadata.dateTime}</p>
+      {(image.hasUnsavedEdits || editError) && (
+        <div className="mb-6 p-3 rounded-lg bg-amber-50/90 border border-amber-200">
+          {image.hasUnsavedEdits && (
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm text-amber-800 flex items-center">
+                <span className="w-2 h-2 rounded-full bg-amber-500 mr-2" />
+                Unsaved changes
+              </span>
+              <button
+                onClick={downloadEditedFile}
+                className="flex items-center text-sm bg-amber-500 text-white px-3 py-1 rounded-lg hover:bg-amber-600 transition-colors"
+              >
+                <FileDown className="w-4 h-4 mr-1" />
+                Download edited file
+              </button>
+            </div>
+          )}
+          {editError && (
+            <p className="text-sm text-red-600 mt-1">{editError}</p>
+          )}
         </div>
+      )}
 
-        <div className="bg-indigo-50/80 backdrop-blur-sm p-4 rounded-lg">
-          <div className="flex items-center mb-2">
-            <Camera className="w-5 h-5 text-indigo-600 mr-2" />
+      {isEditing && canWriteEdits(image) ? (
+        <MetadataEditForm
+          image={image}
+          onSave={handleSaveEdits}
+          onCancel={() => setIsEditing(false)}
+        />
+      ) : (
+        <div className="space-y-6">
+          <div className="bg-blue-50/80 backdrop-blur-sm p-4 rounded-lg">
+            <div className="flex items-center mb-2">
+              <Calendar className="w-5 h-5 text-blue-600 mr-2" />
 
-            <h3 className="font-medium text-indigo-900">Camera Information</h3>
+              <h3 className="font-medium text-blue-900">File Information</h3>
+            </div>
+            <p className="text-blue-800">
+              {image.metadata.fileName}
+              {image.metadata.format && (
+                <span className="ml-2 px-2 py-0.5 rounded-full bg-blue-100 text-blue-700 text-xs">
+                  {IMAGE_FORMATS[image.metadata.format].label}
+                </span>
+              )}
+            </p>
+            <p className="text-blue-700" title={sourceTitle("dateTime")}>
+              {image.metadata.dateTime}
+            </p>
+            {image.metadata.capture && (
+              <p className="text-blue-600 text-sm">
+                {image.metadata.capture.offset
+                  ? `UTC${image.metadata.capture.offset}`
+                  : "Time zone unknown"}
+                {isGuessedOffset(image.metadata.capture) && (
+                  <span
+                    className="text-amber-700"
+                    title="Rounded from the GPS clock without a position to confirm it, so camera clock drift of up to 15 minutes is hidden in it"
+                  >
+                    {" "}
+                    (guessed from GPS time, low confidence)
+                  </span>
+                )}
+                {image.metadata.capture.offsetSource === GPS_POSITION_OFFSET &&
+                  " (from GPS time and position)"}
+                {" · "}
+                {image.metadata.capture.source}
+              </p>
+            )}
+            {image.metadata.capture?.clockMismatch && (
+              <p className="flex items-center text-sm text-amber-700 mt-1">
+                <AlertTriangle className="w-4 h-4 mr-1 flex-shrink-0" />
+                Camera clock is{" "}
+                {formatDuration(image.metadata.capture.clockOffsetSeconds!)}{" "}
+                off from GPS time
+              </p>
+            )}
+            {(orientation !== undefined || canReorient) && (
+              <div className="flex items-center justify-between mt-2">
+                <span
+                  className="text-blue-600 text-sm"
+                  title={sourceTitle("orientation")}
+                >
+                  Orientation:{" "}
+                  {ORIENTATION_LABELS[normalizeOrientation(orientation)]}
+                </span>
+                {canReorient && (
+                  <div className="flex gap-1">
+                    {orientationButtons.map(({ title, icon: Icon, value }) => (
+                      <button
+                        key={title}
+                        onClick={() => handleReorient(value)}
+                        className="p-1 rounded text-blue-600 hover:bg-blue-100 transition-colors"
+                        title={title}
+                      >
+                        <Icon className="w-4 h-4" />
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            {image.metadata.dimensions && (
+              <p
+                className="text-blue-600 text-sm"
+                title={sourceTitle("dimensions")}
+              >
+                Size: {formatDimensions(image.metadata.dimensions)}
+              </p>
+            )}
+            {image.metadata.resolution && (
+              <p
+                className="text-blue-600 text-sm"
+                title={sourceTitle("resolution")}
+              >
+                Print resolution: {formatResolution(image.metadata.resolution)}
+              </p>
+            )}
+            {image.metadata.software && (
+              <p
+                className="text-blue-600 text-sm"
+                title={sourceTitle("software")}
+              >
+                Software: {image.metadata.software}
+              </p>
+            )}
           </div>
-          <p className="text-indigo-800">
-            {image.metadata.make || "Unknown make"}
-          </p>
-          <p className="text-indigo-700">
-            {image.metadata.model || "Unknown model"}
-          </p>
-        </div>
 
-        <div className="bg-purple-50/80 backdrop-blur-sm p-4 rounded-lg">
-          <div className="flex items-center mb-2">
-            <Sliders className="w-5 h-5 text-purple-600 mr-2" />
+          <EmbeddedPreviews image={image} />
 
-            <h3 className="font-medium text-purple-900">Settings</h3>
+          <div className="bg-indigo-50/80 backdrop-blur-sm p-4 rounded-lg">
+            <div className="flex items-center mb-2">
+              <Camera className="w-5 h-5 text-indigo-600 mr-2" />
+
+              <h3 className="font-medium text-indigo-900">Camera Information</h3>
+            </div>
+            <p className="text-indigo-800" title={sourceTitle("make")}>
+              {image.metadata.make || "Unknown make"}
+            </p>
+            <p className="text-indigo-700" title={sourceTitle("model")}>
+              {image.metadata.model || "Unknown model"}
+            </p>
+            {image.metadata.lens && (
+              <p className="text-indigo-700" title={sourceTitle("lens")}>
+                {image.metadata.lens}
+              </p>
+            )}
           </div>
-          <p className="text-purple-800">
-            Exposure: {image.metadata.exposure || "N/A"}
-          </p>
-          <p className="text-purple-800">
-            F-Number: {image.metadata.fNumber || "N/A"}
-          </p>
-          <p className="text-purple-800">ISO: {image.metadata.iso || "N/A"}</p>
-          <p className="text-purple-800">
-            Focal Length:{" "}
-            {image.metadata.focalLength
-              ? `${image.metadata.focalLength}mm`
-              : "N/A"}
-          </p>
-        </div>
 
-        {image.metadata.gps && (
-          <div className="bg-green-50/80 backdrop-blur-sm p-4 rounded-lg">
+          <div className="bg-purple-50/80 backdrop-blur-sm p-4 rounded-lg">
             <div className="flex items-center mb-2">
-              <MapPin className="w-5 h-5 text-green-600 mr-2" />
+              <Sliders className="w-5 h-5 text-purple-600 mr-2" />
 
-              <h3 className="font-medium text-green-900">Location</h3>
+              <h3 className="font-medium text-purple-900">Settings</h3>
             </div>
-            <p className="text-green-800">
-              Latitude: {image.metadata.gps.latitude.toFixed(6)}
+            <p className="text-purple-800" title={sourceTitle("exposure")}>
+              Exposure: {image.metadata.exposure || "N/A"}
+            </p>
+            <p className="text-purple-800" title={sourceTitle("fNumber")}>
+              F-Number: {image.metadata.fNumber || "N/A"}
             </p>
-            <p className="text-green-800">
-              Longitude: {image.metadata.gps.longitude.toFixed(6)}
+            <p className="text-purple-800" title={sourceTitle("iso")}>
+              ISO: {image.metadata.iso || "N/A"}
             </p>
+            <p className="text-purple-800" title={sourceTitle("focalLength")}>
+              Focal Length:{" "}
+              {image.metadata.focalLength
+                ? `${image.metadata.focalLength}mm`
+                : "N/A"}
+              {image.metadata.focalLength35mm &&
+                ` (${image.metadata.focalLength35mm}mm in 35mm film)`}
+            </p>
+            {image.metadata.whiteBalance && (
+              <p
+                className="text-purple-800"
+                title={sourceTitle("whiteBalance")}
+              >
+                White balance: {image.metadata.whiteBalance}
+              </p>
+            )}
+            {image.metadata.flash && (
+              <p className="text-purple-800" title={sourceTitle("flash")}>
+                Flash: {image.metadata.flash}
+              </p>
+            )}
+            {derivedValues.length > 0 && (
+              <div className="mt-3 pt-3 border-t border-purple-100 space-y-1">
+                {derivedValues.map((derived) => (
+                  <div key={derived.label}>
+                    <p className="text-purple-800">
+                      {derived.label}: {derived.value}
+                    </p>
+                    <p className="text-purple-500 text-xs">
+                      from{" "}
+                      {derived.sources
+                        .map((source) => source.split(".").slice(1).join("."))
+                        .join(", ")}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
-        )}
-      </div>
+
+          {image.metadata.gps && (
+            <div className="bg-green-50/80 backdrop-blur-sm p-4 rounded-lg">
+              <div className="flex items-center mb-2">
+                <MapPin className="w-5 h-5 text-green-600 mr-2" />
+
+                <h3 className="font-medium text-green-900">Location</h3>
+                <span
+                  className={`ml-auto px-2 py-0.5 rounded-full text-xs ${
+                    getGpsSource(image.metadata) === "exif"
+                      ? "bg-green-100 text-green-700"
+                      : "bg-amber-100 text-amber-800"
+                  }`}
+                >
+                  {GPS_SOURCE_LABELS[getGpsSource(image.metadata)!]}
+                </span>
+              </div>
+              <p className="text-green-800" title={sourceTitle("gps")}>
+                Latitude: {image.metadata.gps.latitude.toFixed(6)}
+              </p>
+              <p className="text-green-800" title={sourceTitle("gps")}>
+                Longitude: {image.metadata.gps.longitude.toFixed(6)}
+              </p>
+              {image.metadata.gps.altitude !== undefined && (
+                <p className="text-green-800">
+                  Altitude: {Math.abs(image.metadata.gps.altitude).toFixed(1)}{" "}
+                  m{" "}
+                  {image.metadata.gps.altitudeRef === "below"
+                    ? "below"
+                    : "above"}{" "}
+                  sea level
+                </p>
+              )}
+              {image.metadata.gps.direction !== undefined && (
+                <p className="text-green-800">
+                  Camera heading: {image.metadata.gps.direction.toFixed(0)}°
+                  {image.metadata.gps.directionRef &&
+                    ` (${image.metadata.gps.directionRef} north)`}
+                </p>
+              )}
+              {image.metadata.gps.speed !== undefined && (
+                <p className="text-green-800">
+                  Speed: {image.metadata.gps.speed.toFixed(1)} km/h
+                </p>
+              )}
+              {image.metadata.gps.horizontalError !== undefined && (
+                <p className="text-green-800">
+                  Accuracy: ±{image.metadata.gps.horizontalError.toFixed(0)} m
+                </p>
+              )}
+              {image.place && (
+                <p className="text-green-800 mt-2">
+                  Near {formatPlace(image.place)}
+                  <span className="text-green-600 text-sm">
+                    {" "}
+                    ({image.place.distanceKm.toFixed(1)} km away)
+                  </span>
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {showRawTags && (
+        <RawTagExplorer image={image} onClose={() => setShowRawTags(false)} />
+      )}
+
+      {showForensics && (
+        <ForensicsView image={image} onClose={() => setShowForensics(false)} />
+      )}
+
+      {showSanitize && (
+        <SanitizeDialog
+          images={[image]}
+          onClose={() => setShowSanitize(false)}
+        />
+      )}
     </motion.div>
   );
 };
@@ -0,0 +1,35 @@
+import React from "react";
+import { ShieldAlert, ShieldCheck } from "lucide-react";
+import { PRIVACY_CHECKS, PrivacyReport } from "../utils/privacyUtils";
+
+interface Props {
+  report: PrivacyReport;
+  className?: string;
+}
+
+const LEVEL_CLASSES = {
+  none: "bg-green-500",
+  low: "bg-yellow-500",
+  medium: "bg-orange-500",
+  high: "bg-red-600",
+};
+
+export const PrivacyBadge: React.FC<Props> = ({ report, className = "" }) => {
+  const Icon = report.level === "none" ? ShieldCheck : ShieldAlert;
+  const title =
+    report.findings.length > 0
+      ? `Privacy risk ${report.score}/100: ${report.findings
+          .map((finding) => PRIVACY_CHECKS[finding.check].label)
+          .join(", ")}`
+      : "No sensitive metadata found";
+
+  return (
+    <div
+      className={`flex items-center px-1.5 py-0.5 rounded-full text-white text-xs font-semibold ${LEVEL_CLASSES[report.level]} ${className}`}
+      title={title}
+    >
+      <Icon className="w-3.5 h-3.5 mr-0.5" />
+      {report.score}
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useMemo } from "react";
+import { ShieldAlert, X } from "lucide-react";
+import { motion } from "framer-motion";
+import { UploadedImage } from "../types";
+import {
+  PRIVACY_CHECKS,
+  PrivacyCheck,
+  PrivacyReport,
+} from "../utils/privacyUtils";
+import { PrivacyBadge } from "./PrivacyBadge";
+
+interface Props {
+  images: UploadedImage[];
+  reports: Map<string, PrivacyReport>;
+  onSelect: (image: UploadedImage) => void;
+  onClose: () => void;
+}
+
+export const PrivacyReportView: React.FC<Props> = ({
+  images,
+  reports,
+  onSelect,
+  onClose,
+}) => {
+  const rankedImages = useMemo(
+    () =>
+      images
+        .filter((image) => reports.has(image.id))
+        .sort(
+          (a, b) => reports.get(b.id)!.score - reports.get(a.id)!.score,
+        ),
+    [images, reports],
+  );
+
+  const checkCounts = useMemo(() => {
+    const counts = new Map<PrivacyCheck, number>();
+    reports.forEach((report) =>
+      report.findings.forEach((finding) =>
+        counts.set(finding.check, (counts.get(finding.check) ?? 0) + 1),
+      ),
+    );
+    return counts;
+  }, [reports]);
+
+  const flaggedCount = rankedImages.filter(
+    (image) => reports.get(image.id)!.findings.length > 0,
+  ).length;
+
+  return (
+    <div
+      className="fixed inset-0 z-[1000] flex items-center justify-center bg-black bg-opacity-40 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl shadow-xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center">
+            <ShieldAlert className="w-5 h-5 text-blue-600 mr-2" />
+            <h2 className="text-lg font-semibold text-blue-900">
+              Privacy report
+            </h2>
+            <span className="ml-3 text-sm text-gray-600">
+              {flaggedCount} of {rankedImages.length} images expose sensitive
+              metadata
+            </span>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="overflow-auto flex-1 space-y-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="px-3 py-1 font-medium">Check</th>
+                <th className="px-3 py-1 font-medium">Weight</th>
+                <th className="px-3 py-1 font-medium">Images</th>
+                <th className="px-3 py-1 font-medium">Why it matters</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(PRIVACY_CHECKS) as PrivacyCheck[]).map((check) => {
+                const count = checkCounts.get(check) ?? 0;
+                return (
+                  <tr
+                    key={check}
+                    className={`border-t border-gray-100 ${count > 0 ? "bg-amber-50" : ""}`}
+                  >
+                    <td className="px-3 py-1 font-medium text-blue-900">
+                      {PRIVACY_CHECKS[check].label}
+                    </td>
+                    <td className="px-3 py-1 text-gray-700">
+                      {PRIVACY_CHECKS[check].weight}
+                    </td>
+                    <td className="px-3 py-1 text-gray-700">{count}</td>
+                    <td className="px-3 py-1 text-gray-600">
+                      {PRIVACY_CHECKS[check].explanation}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="px-3 py-1 font-medium">Image</th>
+                <th className="px-3 py-1 font-medium">Score</th>
+                <th className="px-3 py-1 font-medium">Findings</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rankedImages.map((image) => {
+                const report = reports.get(image.id)!;
+                return (
+                  <tr
+                    key={image.id}
+                    className="border-t border-gray-100 align-top cursor-pointer hover:bg-blue-50"
+                    onClick={() => {
+                      onSelect(image);
+                      onClose();
+                    }}
+                  >
+                    <td className="px-3 py-2">
+                      <div className="flex items-center gap-2">
+                        <img
+                          src={image.preview}
+                          alt={image.metadata.fileName}
+                          className="w-10 h-10 object-cover rounded"
+                        />
+                        <span className="text-blue-900 break-all">
+                          {image.metadata.fileName}
+                        </span>
+                      </div>
+                    </td>
+                    <td className="px-3 py-2">
+                      <PrivacyBadge report={report} className="w-fit" />
+                    </td>
+                    <td className="px-3 py-2 text-gray-700">
+                      {report.findings.length === 0 ? (
+                        <span className="text-gray-400">Nothing found</span>
+                      ) : (
+                        <ul className="space-y-1">
+                          {report.findings.map((finding) => (
+                            <li key={finding.check} className="break-words">
+                              <span className="font-medium text-gray-900">
+                                {PRIVACY_CHECKS[finding.check].label}:
+                              </span>{" "}
+                              {finding.detail}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useMemo, useState } from "react";
+import {
+  ListTree,
+  X,
+  Search,
+  Copy,
+  Check,
+  ChevronDown,
+  ChevronRight,
+} from "lucide-react";
+import { motion } from "framer-motion";
+import { UploadedImage } from "../types";
+import {
+  RawTagEntry,
+  TAG_SOURCES,
+  TagSource,
+  flattenTags,
+} from "../utils/tagUtils";
+
+interface Props {
+  image: UploadedImage;
+  onClose: () => void;
+}
+
+export const RawTagExplorer: React.FC<Props> = ({ image, onClose }) => {
+  const [query, setQuery] = useState("");
+  const [showUnknown, setShowUnknown] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<TagSource>>(new Set());
+  const [copiedPath, setCopiedPath] = useState<string>();
+
+  const allEntries = useMemo(() => flattenTags(image.tags), [image.tags]);
+
+  const groups = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const visible = allEntries.filter(
+      (entry) =>
+        (showUnknown || !entry.unknown) &&
+        (!needle ||
+          entry.path.toLowerCase().includes(needle) ||
+          entry.description.toLowerCase().includes(needle) ||
+          entry.value.toLowerCase().includes(needle)),
+    );
+
+    return TAG_SOURCES.map((source) => ({
+      source,
+      entries: visible.filter((entry) => entry.source === source),
+    })).filter((group) => group.entries.length > 0);
+  }, [allEntries, query, showUnknown]);
+
+  const unknownCount = allEntries.filter((entry) => entry.unknown).length;
+
+  const toggleGroup = (source: TagSource) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(source)) {
+        next.delete(source);
+      } else {
+        next.add(source);
+      }
+      return next;
+    });
+  };
+
+  const copyValue = async (entry: RawTagEntry) => {
+    try {
+      await navigator.clipboard.writeText(entry.value || entry.description);
+      setCopiedPath(entry.path);
+      setTimeout(() => setCopiedPath(undefined), 1500);
+    } catch (error) {
+      console.warn("Clipboard write failed:", error);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[1000] flex items-center justify-center bg-black bg-opacity-40 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl shadow-xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center min-w-0">
+            <ListTree className="w-5 h-5 text-blue-600 mr-2 shrink-0" />
+            <h2 className="text-lg font-semibold text-blue-900 truncate">
+              All tags · {image.metadata.fileName}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search tags and values"
+              className="w-full pl-9 pr-3 py-2 rounded-lg border border-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-400"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showUnknown}
+              onChange={() => setShowUnknown(!showUnknown)}
+            />
+            Show unknown tags ({unknownCount})
+          </label>
+        </div>
+
+        <div className="overflow-y-auto flex-1 space-y-3">
+          {groups.length === 0 && (
+            <p className="text-gray-500 text-center py-8">No tags found</p>
+          )}
+          {groups.map(({ source, entries }) => (
+            <div key={source} className="rounded-lg border border-blue-100">
+              <button
+                onClick={() => toggleGroup(source)}
+                className="w-full flex items-center px-3 py-2 bg-blue-50 rounded-t-lg text-left"
+              >
+                {collapsed.has(source) ? (
+                  <ChevronRight className="w-4 h-4 text-blue-600 mr-1" />
+                ) : (
+                  <ChevronDown className="w-4 h-4 text-blue-600 mr-1" />
+                )}
+                <span className="font-medium text-blue-900">{source}</span>
+                <span className="ml-2 text-sm text-blue-600">
+                  {entries.length}
+                </span>
+              </button>
+              {!collapsed.has(source) && (
+                <table className="w-full text-sm table-fixed">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="px-3 py-1 w-1/4 font-medium">Tag</th>
+                      <th className="px-3 py-1 w-1/3 font-medium">
+                        Description
+                      </th>
+                      <th className="px-3 py-1 font-medium">Raw value</th>
+                      <th className="w-10" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map((entry) => (
+                      <tr
+                        key={entry.path}
+                        className="border-t border-gray-100 align-top"
+                      >
+                        <td
+                          className={`px-3 py-1 break-words ${entry.unknown ? "text-gray-400 italic" : "text-gray-800"}`}
+                          title={entry.path}
+                        >
+                          {entry.name}
+                        </td>
+                        <td className="px-3 py-1 text-gray-700 break-words">
+                          {entry.description}
+                        </td>
+                        <td className="px-3 py-1 font-mono text-xs text-gray-500 break-all">
+                          {entry.value}
+                        </td>
+                        <td className="px-2 py-1">
+                          <button
+                            onClick={() => copyValue(entry)}
+                            className="p-1 rounded hover:bg-gray-100"
+                            title="Copy value"
+                          >
+                            {copiedPath === entry.path ? (
+                              <Check className="w-4 h-4 text-green-600" />
+                            ) : (
+                              <Copy className="w-4 h-4 text-gray-500" />
+                            )}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
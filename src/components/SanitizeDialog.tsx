@@ -0,0 +1,180 @@
+import React, { useState } from "react";
+import { ShieldCheck, X, Loader2 } from "lucide-react";
+import { motion } from "framer-motion";
+import { UploadedImage } from "../types";
+import {
+  SANITIZE_GROUPS,
+  SANITIZE_PRESETS,
+  SanitizeGroup,
+  SanitizeOptions,
+  canSanitize,
+  getSanitizedFileName,
+  sanitizeImage,
+} from "../utils/sanitizeUtils";
+import { downloadBlob } from "../utils/downloadUtils";
+import { createZip } from "../utils/zipUtils";
+
+interface Props {
+  images: UploadedImage[];
+  onClose: () => void;
+}
+
+// Groups that live inside the EXIF block and are implied by "All EXIF"
+const EXIF_SUBGROUPS: SanitizeGroup[] = ["gps", "owner", "makerNote", "thumbnail"];
+
+export const SanitizeDialog: React.FC<Props> = ({ images, onClose }) => {
+  const [options, setOptions] = useState<SanitizeOptions>(
+    SANITIZE_PRESETS[0].options,
+  );
+  const [isWorking, setIsWorking] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const supported = images.filter(canSanitize);
+  const skipped = images.length - supported.length;
+
+  const toggleGroup = (group: SanitizeGroup) => {
+    setOptions((prev) => ({ ...prev, [group]: !prev[group] }));
+  };
+
+  const handleDownload = async () => {
+    setIsWorking(true);
+    setErrors([]);
+    const failures: string[] = [];
+    const results: { name: string; blob: Blob }[] = [];
+
+    for (const image of supported) {
+      try {
+        const blob = await sanitizeImage(image.file, options);
+        results.push({ name: getSanitizedFileName(image.file.name), blob });
+      } catch (error) {
+        failures.push(
+          `${image.metadata.fileName}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    if (results.length === 1) {
+      downloadBlob(results[0].blob, results[0].name);
+    } else if (results.length > 1) {
+      const entries = await Promise.all(
+        results.map(async ({ name, blob }) => ({
+          name,
+          data: new Uint8Array(await blob.arrayBuffer()),
+        })),
+      );
+      downloadBlob(createZip(entries), "sanitized-images.zip");
+    }
+
+    setErrors(failures);
+    setIsWorking(false);
+    if (failures.length === 0) onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[1000] flex items-center justify-center bg-black bg-opacity-40 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl shadow-xl p-6 w-full max-w-md"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center">
+            <ShieldCheck className="w-5 h-5 text-blue-600 mr-2" />
+            <h2 className="text-lg font-semibold text-blue-900">
+              Sanitize {images.length === 1 ? "image" : `${images.length} images`}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {SANITIZE_PRESETS.map((preset) => (
+            <button
+              key={preset.name}
+              onClick={() => setOptions(preset.options)}
+              className="px-3 py-1 text-sm rounded-lg bg-blue-50 text-blue-700 hover:bg-blue-100"
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-2 mb-4">
+          {SANITIZE_GROUPS.map((group) => {
+            const impliedByExif =
+              options.exif && EXIF_SUBGROUPS.includes(group.key);
+            return (
+              <label
+                key={group.key}
+                className={`flex items-start gap-2 ${impliedByExif ? "opacity-50" : ""}`}
+              >
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={options[group.key] || impliedByExif}
+                  disabled={impliedByExif}
+                  onChange={() => toggleGroup(group.key)}
+                />
+                <span>
+                  <span className="text-gray-800">Remove {group.label}</span>
+                  <span className="block text-xs text-gray-500">
+                    {group.description}
+                  </span>
+                </span>
+              </label>
+            );
+          })}
+          <label className="flex items-start gap-2 pt-2 border-t border-gray-100">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={options.keepOrientation}
+              onChange={() =>
+                setOptions((prev) => ({
+                  ...prev,
+                  keepOrientation: !prev.keepOrientation,
+                }))
+              }
+            />
+            <span className="text-gray-800">Keep orientation tag</span>
+          </label>
+        </div>
+
+        {skipped > 0 && (
+          <p className="mb-4 p-3 rounded-lg bg-amber-50 text-sm text-amber-800">
+            {supported.length === 0
+              ? "Only JPEG files can be sanitized."
+              : `${skipped} ${skipped === 1 ? "file is" : "files are"} skipped: only JPEG files can be sanitized.`}{" "}
+            Metadata in HEIC, PNG, WebP, TIFF and RAW files is not rewritten.
+          </p>
+        )}
+
+        {errors.length > 0 && (
+          <div className="mb-4 p-3 rounded-lg bg-red-50 text-sm text-red-700 space-y-1">
+            {errors.map((error) => (
+              <p key={error}>{error}</p>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={handleDownload}
+          disabled={isWorking || supported.length === 0}
+          className="w-full flex items-center justify-center bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-60"
+        >
+          {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Sanitize and download
+        </button>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from "react";
+import { Database, Trash2 } from "lucide-react";
+import { motion } from "framer-motion";
+import {
+  StorageUsage,
+  formatBytes,
+  getStorageUsage,
+} from "../utils/sessionStore";
+
+interface Props {
+  imageCount: number;
+  onForget: () => void;
+}
+
+export const SessionMenu: React.FC<Props> = ({ imageCount, onForget }) => {
+  const [open, setOpen] = useState(false);
+  const [usage, setUsage] = useState<StorageUsage>();
+
+  useEffect(() => {
+    if (open) {
+      getStorageUsage().then(setUsage);
+    }
+  }, [open, imageCount]);
+
+  const handleForget = () => {
+    if (
+      window.confirm(
+        "Remove all stored images and settings from this browser? The current gallery will be cleared.",
+      )
+    ) {
+      onForget();
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      {open && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="absolute right-0 top-12 bg-white rounded-lg shadow-xl p-4 z-50 w-64 text-sm"
+        >
+          <h3 className="font-semibold text-blue-900 mb-2">Saved session</h3>
+          <p className="text-gray-700">
+            {imageCount} images are kept in this browser and restored on reload.
+          </p>
+          {usage ? (
+            <div className="mt-3">
+              <div className="h-2 rounded-full bg-blue-100 overflow-hidden">
+                <div
+                  className="h-full bg-blue-500"
+                  style={{
+                    width: `${usage.quota ? Math.min((usage.usage / usage.quota) * 100, 100) : 0}%`,
+                  }}
+                />
+              </div>
+              <p className="text-gray-600 mt-1">
+                {formatBytes(usage.usage)} used of {formatBytes(usage.quota)}
+              </p>
+            </div>
+          ) : (
+            <p className="text-gray-500 mt-3">Storage usage unavailable</p>
+          )}
+          <button
+            onClick={handleForget}
+            className="w-full flex items-center justify-center mt-4 px-3 py-1.5 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Forget session
+          </button>
+        </motion.div>
+      )}
+      <motion.button
+        whileHover={{ scale: 1.05 }}
+        className="p-2 rounded-lg bg-gradient-to-r from-blue-500 to-indigo-500 text-white shadow-md flex items-center gap-2"
+        onClick={() => setOpen(!open)}
+      >
+        <Database className="w-5 h-5" />
+        <span className="hidden sm:inline">Session</span>
+      </motion.button>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useState } from "react";
+import { Layers, X } from "lucide-react";
+import { motion } from "framer-motion";
+import {
+  DEFAULT_TILE_SOURCE,
+  TILE_PRESETS,
+  TileSource,
+  validateTileSource,
+} from "../utils/mapUtils";
+
+interface Props {
+  tileSource: TileSource;
+  onSave: (tileSource: TileSource) => void;
+  onClose: () => void;
+}
+
+export const TileSourceDialog: React.FC<Props> = ({
+  tileSource,
+  onSave,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState(tileSource);
+  const error = validateTileSource(draft);
+
+  const update = (changes: Partial<TileSource>) =>
+    setDraft((prev) => ({ ...prev, ...changes }));
+
+  const inputClassName =
+    "w-full px-2 py-1 text-sm rounded-lg border border-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-400";
+
+  return (
+    <div
+      className="fixed inset-0 z-[1000] flex items-center justify-center bg-black bg-opacity-40 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl shadow-xl p-6 w-full max-w-md"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center">
+            <Layers className="w-5 h-5 text-blue-600 mr-2" />
+            <h2 className="text-lg font-semibold text-blue-900">Map tiles</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {TILE_PRESETS.map((preset) => (
+            <button
+              key={preset.label}
+              onClick={() => setDraft(preset.source)}
+              className={`px-3 py-1 text-sm rounded-lg ${
+                draft.url === preset.source.url
+                  ? "bg-blue-500 text-white"
+                  : "bg-blue-50 text-blue-700 hover:bg-blue-100"
+              }`}
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-3 text-sm">
+          <label className="block">
+            <span className="text-gray-700">URL template</span>
+            <input
+              value={draft.url}
+              onChange={(e) => update({ url: e.target.value.trim() })}
+              placeholder="https://tiles.example.org/{z}/{x}/{y}.png"
+              className={inputClassName}
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-700">Attribution (HTML)</span>
+            <input
+              value={draft.attribution}
+              onChange={(e) => update({ attribution: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-700">Max zoom</span>
+            <input
+              type="number"
+              min={1}
+              max={24}
+              value={draft.maxZoom}
+              onChange={(e) => update({ maxZoom: parseInt(e.target.value) })}
+              className={inputClassName}
+            />
+          </label>
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex gap-2 mt-6">
+          <button
+            onClick={() => setDraft(DEFAULT_TILE_SOURCE)}
+            className="px-4 py-2 rounded-lg text-blue-700 bg-blue-50 hover:bg-blue-100 transition-colors"
+          >
+            Reset
+          </button>
+          <button
+            onClick={() => {
+              onSave(draft);
+              onClose();
+            }}
+            disabled={!!error}
+            className="flex-1 bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-60"
+          >
+            Save
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from "react";
+import { Footprints, Upload, X } from "lucide-react";
+import { motion } from "framer-motion";
+import { UploadedImage } from "../types";
+import { formatDuration, getCaptureTimestamp } from "../utils/dateUtils";
+import {
+  DEFAULT_TRACK_MATCH_OPTIONS,
+  TRACK_FILE_TYPES,
+  Track,
+  TrackMatchOptions,
+  TrackReview,
+  matchImagesToTrack,
+  parseTrackFile,
+} from "../utils/trackUtils";
+
+interface Props {
+  images: UploadedImage[];
+  review?: TrackReview;
+  onReview: (review: TrackReview) => void;
+  onClose: () => void;
+}
+
+const formatUtc = (time: number) =>
+  new Date(time).toISOString().slice(0, 19).replace("T", " ");
+
+export const TrackImportDialog: React.FC<Props> = ({
+  images,
+  review,
+  onReview,
+  onClose,
+}) => {
+  const [track, setTrack] = useState<Track | undefined>(review?.track);
+  const [options, setOptions] = useState<TrackMatchOptions>(
+    review?.options ?? DEFAULT_TRACK_MATCH_OPTIONS,
+  );
+  const [error, setError] = useState<string>();
+
+  const candidates = useMemo(
+    () => images.filter((image) => !image.metadata.gps),
+    [images],
+  );
+  const matches = useMemo(
+    () => (track ? matchImagesToTrack(candidates, track, options) : []),
+    [candidates, track, options],
+  );
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setTrack(await parseTrackFile(file));
+      setError(undefined);
+    } catch (err) {
+      setTrack(undefined);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const inputClassName =
+    "w-full px-2 py-1 text-sm rounded-lg border border-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-400";
+
+  return (
+    <div
+      className="fixed inset-0 z-[1000] flex items-center justify-center bg-black bg-opacity-40 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-xl shadow-xl p-6 w-full max-w-2xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center">
+            <Footprints className="w-5 h-5 text-blue-600 mr-2" />
+            <h2 className="text-lg font-semibold text-blue-900">
+              Geotag from track log
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100"
+            title="Close"
+          >
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="space-y-4 overflow-y-auto text-sm">
+          <label className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg border-2 border-dashed border-blue-200 text-blue-700 hover:bg-blue-50 cursor-pointer">
+            <Upload className="w-4 h-4" />
+            {track
+              ? `${track.name}: ${track.points.length} points, ${formatUtc(track.points[0].time)} to ${formatUtc(track.points[track.points.length - 1].time)} UTC`
+              : "Choose a GPX, KML or GeoJSON track"}
+            <input
+              type="file"
+              accept={TRACK_FILE_TYPES}
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+          {error && <p className="text-red-600">{error}</p>}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="block">
+              <span className="text-gray-700">Max gap (seconds)</span>
+              <input
+                type="number"
+                min={0}
+                value={options.maxGapSeconds}
+                onChange={(e) =>
+                  setOptions({
+                    ...options,
+                    maxGapSeconds: Math.max(0, parseInt(e.target.value) || 0),
+                  })
+                }
+                className={inputClassName}
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-700">
+                Camera clock offset (seconds)
+              </span>
+              <input
+                type="number"
+                value={options.clockOffsetSeconds}
+                onChange={(e) =>
+                  setOptions({
+                    ...options,
+                    clockOffsetSeconds: parseInt(e.target.value) || 0,
+                  })
+                }
+                className={inputClassName}
+              />
+            </label>
+          </div>
+          <p className="text-gray-600">
+            Added to each capture time to reach the track's UTC clock
+            {options.clockOffsetSeconds !== 0 &&
+              ` (${formatDuration(options.clockOffsetSeconds)})`}
+            . For photos without a time zone, include the zone difference,
+            e.g. -7200 for UTC+2.
+          </p>
+
+          {track && (
+            <div>
+              <h3 className="font-medium text-gray-700 mb-2">
+                {matches.length} of {candidates.length} images without GPS
+                matched
+              </h3>
+              <div className="max-h-56 overflow-y-auto border border-gray-100 rounded-lg">
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-left text-gray-600">
+                      <th className="sticky top-0 bg-white px-3 py-1 font-medium">
+                        File
+                      </th>
+                      <th className="sticky top-0 bg-white px-3 py-1 font-medium">
+                        Time (UTC)
+                      </th>
+                      <th className="sticky top-0 bg-white px-3 py-1 font-medium">
+                        Result
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {candidates.map((image) => {
+                      const match = matches.find(
+                        (m) => m.imageId === image.id,
+                      );
+                      const timestamp = getCaptureTimestamp(image.metadata);
+                      return (
+                        <tr key={image.id} className="border-t border-gray-100">
+                          <td className="px-3 py-1 text-blue-900 break-all">
+                            {image.metadata.fileName}
+                          </td>
+                          <td className="px-3 py-1 text-gray-700">
+                            {timestamp === undefined
+                              ? "No capture time"
+                              : formatUtc(
+                                  timestamp +
+                                    options.clockOffsetSeconds * 1000,
+                                )}
+                          </td>
+                          <td
+                            className={`px-3 py-1 ${match ? "text-green-700" : "text-gray-400"}`}
+                          >
+                            {match
+                              ? `${match.latitude.toFixed(5)}, ${match.longitude.toFixed(5)} (${match.gapSeconds}s from a fix)`
+                              : "No fix within the gap"}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={() => {
+            onReview({ track: track!, options, matches });
+            onClose();
+          }}
+          disabled={!track || matches.length === 0}
+          className="mt-4 w-full flex items-center justify-center bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-60"
+        >
+          <Footprints className="w-4 h-4 mr-2" />
+          Review {matches.length} positions on the map
+        </button>
+      </motion.div>
+    </div>
+  );
+};
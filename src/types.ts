@@ -1,17 +1,170 @@
+import type { ExpandedTags } from 'exifreader';
+
 export interface ImageMetadata {
   fileName: string;
   dateTime?: string;
+  capture?: CaptureTime;
   make?: string;
   model?: string;
   exposure?: string;
   fNumber?: number;
   iso?: number;
+  // Actual focal length of the lens, in mm
   focalLength?: number;
+  // FocalLengthIn35mmFilm, kept separate so the two are never confused
+  focalLength35mm?: number;
+  lens?: string;
+  gps?: GpsPosition;
+  // Where the position came from; unset means the file's own GPS tags
+  gpsSource?: GpsSource;
+  thumbnail?: string;
+  // EXIF Orientation, 1-8
+  orientation?: number;
+  software?: string;
+  whiteBalance?: string;
+  flash?: string;
+  // Print density from XResolution/YResolution, not the pixel size
+  resolution?: Resolution;
+  dimensions?: PixelDimensions;
+  // The tag each extracted value above was read from; fields changed by an
+  // edit drop their entry
+  provenance?: NormalizedMetadata;
+  // Detected from the file's magic bytes
+  format?: ImageFormat;
+}
+
+export type ImageFormat =
+  | 'jpeg'
+  | 'png'
+  | 'gif'
+  | 'bmp'
+  | 'webp'
+  | 'heic'
+  | 'avif'
+  | 'tiff'
+  | 'dng'
+  | 'cr2'
+  | 'cr3'
+  | 'nef'
+  | 'arw'
+  | 'orf'
+  | 'rw2'
+  | 'raf';
+
+export type GpsSource = 'exif' | 'track' | 'user';
+
+// 'high' for the field's own standard tag, 'medium' for an XMP or secondary
+// copy or a value converted from a related tag, 'low' for a loose stand-in
+export type Confidence = 'high' | 'medium' | 'low';
+
+export interface SourcedValue<T> {
+  value: T;
+  // Tag path such as "exif.Make"
+  source: string;
+  // The tag as recorded, before normalizing
+  raw: string;
+  confidence: Confidence;
+}
+
+// Every field the extractor normalizes, each with where it came from
+export interface NormalizedMetadata {
+  dateTime?: SourcedValue<string>;
+  make?: SourcedValue<string>;
+  model?: SourcedValue<string>;
+  lens?: SourcedValue<string>;
+  exposure?: SourcedValue<string>;
+  fNumber?: SourcedValue<number>;
+  iso?: SourcedValue<number>;
+  focalLength?: SourcedValue<number>;
+  focalLength35mm?: SourcedValue<number>;
+  orientation?: SourcedValue<number>;
+  software?: SourcedValue<string>;
+  whiteBalance?: SourcedValue<string>;
+  flash?: SourcedValue<string>;
+  resolution?: SourcedValue<Resolution>;
+  dimensions?: SourcedValue<PixelDimensions>;
+  gps?: SourcedValue<GpsPosition>;
+}
+
+export interface Resolution {
+  x: number;
+  y: number;
+  // Dots per inch or per centimetre; 'none' only gives the aspect ratio
+  unit: 'inch' | 'cm' | 'none';
+}
+
+export interface PixelDimensions {
+  width: number;
+  height: number;
+}
+
+export interface GpsPosition {
+  latitude: number;
+  longitude: number;
+  // Metres, negative below sea level
+  altitude?: number;
+  // GPSAltitudeRef: above or below sea level
+  altitudeRef?: 'above' | 'below';
+  // GPSImgDirection, degrees clockwise from north
+  direction?: number;
+  // GPSImgDirectionRef: true or magnetic north
+  directionRef?: 'true' | 'magnetic';
+  // GPSSpeed converted to km/h
+  speed?: number;
+  // GPSHPositioningError, in metres
+  horizontalError?: number;
+}
+
+// Capture time resolved from the date, offset, sub-second and GPS time tags
+export interface CaptureTime {
+  // Camera wall-clock time, "YYYY-MM-DDTHH:MM:SS" plus optional fraction
+  local: string;
+  // Tag path the time came from, e.g. "exif.DateTimeOriginal"
+  source: string;
+  // UTC offset such as "+02:00"
+  offset?: string;
+  offsetSource?: string;
+  // Milliseconds since the epoch, only known together with the offset
+  timestamp?: number;
+  // UTC time from GPSDateStamp/GPSTimeStamp
+  gpsTimestamp?: number;
+  // Camera clock minus GPS clock in seconds, after removing the time zone
+  clockOffsetSeconds?: number;
+  clockMismatch?: boolean;
+}
+
+// Full ExifReader tag tree (expanded mode) as loaded from the file
+export type RawTags = ExpandedTags;
+
+export interface ExtractionResult {
+  metadata: ImageMetadata;
+  tags: RawTags;
+  // Embedded JPEG for RAW and TIFF files that browsers can't display
+  preview?: Blob;
+}
+
+export interface MetadataEdits {
+  dateTime?: string;
+  make?: string;
+  model?: string;
+  lens?: string;
+  // null removes the location from the file
   gps?: {
     latitude: number;
     longitude: number;
-  };
-  thumbnail?: string;
+  } | null;
+  // Recorded with a new position; defaults to 'user'
+  gpsSource?: GpsSource;
+  orientation?: number;
+}
+
+// Nearest gazetteer place to an image's GPS position, resolved offline
+export interface PlaceInfo {
+  city: string;
+  region?: string;
+  country: string;
+  countryCode: string;
+  distanceKm: number;
 }
 
 export interface UploadedImage {
@@ -19,4 +172,21 @@ export interface UploadedImage {
   file: File;
   metadata: ImageMetadata;
   preview: string;
+  // Displayable stand-in for formats the browser can't decode; kept so the
+  // preview can be recreated when a session is restored
+  previewBlob?: Blob;
+  tags?: RawTags;
+  edits?: MetadataEdits;
+  hasUnsavedEdits?: boolean;
+  place?: PlaceInfo;
+  hashes?: ImageHashes;
+}
+
+// Content fingerprints used to find the same photo uploaded more than once
+export interface ImageHashes {
+  sha256: string;
+  // dHash of the displayed image rotated by 0°, 90°, 180° and 270°
+  perceptual?: string[];
+  // Width / height of the displayed image
+  aspect?: number;
 }
\ No newline at end of file
@@ -0,0 +1,185 @@
+import { UploadedImage } from '../types';
+import { exifDateToIso } from './dateUtils';
+import {
+  GalleryFilter,
+  getCameraLabel,
+  getCaptureHour,
+  getFacetValues,
+  getLensLabel,
+  parseExposureSeconds,
+} from './filterUtils';
+
+export interface AnalyticsBar {
+  label: string;
+  count: number;
+  // Applied on top of the default filter when the bar is clicked
+  filter: Partial<GalleryFilter>;
+}
+
+export interface AnalyticsChart {
+  key: string;
+  title: string;
+  // Columns for ordered values, rows for named ones like lenses
+  layout: 'columns' | 'rows';
+  bars: AnalyticsBar[];
+  // Images without a value for this chart
+  missing: number;
+}
+
+type RangeKey = 'focal' | 'fNumber' | 'exposure' | 'iso';
+
+interface NumericBin {
+  key: number;
+  label: string;
+  min: number;
+  max: number;
+  count: number;
+}
+
+// Common zoom ranges; the last bin is open-ended
+const FOCAL_EDGES = [10, 14, 20, 28, 35, 50, 70, 100, 135, 200, 300, 400, 600];
+// Full stops, f/1 up to f/64
+const NOMINAL_APERTURES = ['1', '1.4', '2', '2.8', '4', '5.6', '8', '11', '16', '22', '32', '45', '64'];
+const NOMINAL_SHUTTER_SPEEDS = [
+  '1/8000', '1/4000', '1/2000', '1/1000', '1/500', '1/250', '1/125', '1/60', '1/30', '1/15', '1/8', '1/4', '1/2',
+  '1', '2', '4', '8', '15', '30', '60',
+];
+
+export const getLibraryAnalytics = (images: UploadedImage[]): AnalyticsChart[] => [
+  numericChart(images, 'focal', 'Focal length', (image) => image.metadata.focalLength, focalBin),
+  numericChart(images, 'fNumber', 'Aperture', (image) => image.metadata.fNumber, apertureBin),
+  numericChart(images, 'exposure', 'Shutter speed', (image) => parseExposureSeconds(image.metadata.exposure), shutterBin),
+  numericChart(images, 'iso', 'ISO', (image) => image.metadata.iso, isoBin),
+  facetChart(images, 'cameras', 'Camera bodies', getCameraLabel),
+  facetChart(images, 'lenses', 'Lenses', getLensLabel),
+  dayChart(images),
+  hourChart(images),
+];
+
+function numericChart(
+  images: UploadedImage[],
+  key: RangeKey,
+  title: string,
+  getValue: (image: UploadedImage) => number | undefined,
+  getBin: (value: number) => { key: number; label: string },
+): AnalyticsChart {
+  const bins: NumericBin[] = [];
+  let missing = 0;
+
+  images.forEach((image) => {
+    const value = getValue(image);
+    if (value === undefined || !(value > 0)) {
+      missing++;
+      return;
+    }
+    const { key: binKey, label } = getBin(value);
+    const bin = bins.find((candidate) => candidate.key === binKey);
+    if (bin) {
+      bin.count++;
+      bin.min = Math.min(bin.min, value);
+      bin.max = Math.max(bin.max, value);
+    } else {
+      bins.push({ key: binKey, label, min: value, max: value, count: 1 });
+    }
+  });
+
+  // The observed extremes of a bin select exactly its images, since no
+  // other bin has values between them
+  const bars = bins
+    .sort((a, b) => a.key - b.key)
+    .map(({ label, min, max, count }) => ({ label, count, filter: rangeFilter(key, min, max) }));
+  return { key, title, layout: 'columns', bars, missing };
+}
+
+function facetChart(
+  images: UploadedImage[],
+  key: 'cameras' | 'lenses',
+  title: string,
+  getLabel: (image: UploadedImage) => string,
+): AnalyticsChart {
+  const bars = getFacetValues(images, getLabel).map(({ value, count }) => ({
+    label: value,
+    count,
+    filter: { [key]: [value] },
+  }));
+  return { key, title, layout: 'rows', bars, missing: 0 };
+}
+
+function dayChart(images: UploadedImage[]): AnalyticsChart {
+  const counts: Record<string, number> = {};
+  let missing = 0;
+  images.forEach((image) => {
+    const day = exifDateToIso(image.metadata.dateTime).slice(0, 10);
+    if (day) {
+      counts[day] = (counts[day] ?? 0) + 1;
+    } else {
+      missing++;
+    }
+  });
+
+  const bars = Object.keys(counts)
+    .sort()
+    .map((day) => ({ label: day, count: counts[day], filter: { dateFrom: day, dateTo: day } }));
+  return { key: 'day', title: 'Photos per day', layout: 'columns', bars, missing };
+}
+
+function hourChart(images: UploadedImage[]): AnalyticsChart {
+  const counts = new Array<number>(24).fill(0);
+  let missing = 0;
+  images.forEach((image) => {
+    const hour = getCaptureHour(image);
+    if (hour === undefined) {
+      missing++;
+    } else {
+      counts[hour]++;
+    }
+  });
+
+  // Every hour is shown so quiet periods are visible too
+  const bars =
+    missing < images.length
+      ? counts.map((count, hour) => ({ label: String(hour).padStart(2, '0'), count, filter: { hour } }))
+      : [];
+  return { key: 'hour', title: 'Photos per hour', layout: 'columns', bars, missing };
+}
+
+function rangeFilter(key: RangeKey, min: number, max: number): Partial<GalleryFilter> {
+  switch (key) {
+    case 'focal':
+      return { focalMin: min, focalMax: max };
+    case 'fNumber':
+      return { fNumberMin: min, fNumberMax: max };
+    case 'exposure':
+      return { exposureMin: min, exposureMax: max };
+    case 'iso':
+      return { isoMin: min, isoMax: max };
+  }
+}
+
+function focalBin(value: number) {
+  const index = FOCAL_EDGES.findIndex((edge) => value < edge);
+  if (index === 0) return { key: 0, label: `<${FOCAL_EDGES[0]} mm` };
+  if (index < 0) return { key: FOCAL_EDGES.length, label: `${FOCAL_EDGES[FOCAL_EDGES.length - 1]}+ mm` };
+  return { key: index, label: `${FOCAL_EDGES[index - 1]}–${FOCAL_EDGES[index]} mm` };
+}
+
+function apertureBin(value: number) {
+  // Each full stop multiplies the f-number by √2
+  const stop = Math.round(2 * Math.log2(value));
+  return { key: stop, label: `f/${NOMINAL_APERTURES[stop] ?? Math.pow(Math.SQRT2, stop).toFixed(1)}` };
+}
+
+function shutterBin(value: number) {
+  const stop = Math.round(Math.log2(value));
+  const nominal = NOMINAL_SHUTTER_SPEEDS.reduce((best, speed) =>
+    Math.abs(Math.log2(parseExposureSeconds(speed)!) - stop) < Math.abs(Math.log2(parseExposureSeconds(best)!) - stop)
+      ? speed
+      : best,
+  );
+  return { key: stop, label: `${nominal}s` };
+}
+
+function isoBin(value: number) {
+  const stop = Math.round(Math.log2(value / 100));
+  return { key: stop, label: String(Math.round(100 * Math.pow(2, stop))) };
+}
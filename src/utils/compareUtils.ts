@@ -0,0 +1,79 @@
+import { UploadedImage } from '../types';
+import { flattenTags, getTagDescription } from './tagUtils';
+import { exifDateToIso, formatCaptureTime } from './dateUtils';
+import { formatPlace } from './geocodeUtils';
+import { getMimeType } from './formatUtils';
+
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  values: string[];
+  differs: boolean;
+}
+
+const SUMMARY_FIELDS: { key: string; label: string; getValue: (image: UploadedImage) => unknown }[] = [
+  { key: 'dateTime', label: 'Date taken', getValue: (image) => image.metadata.dateTime },
+  {
+    key: 'capture',
+    label: 'Capture time (zone)',
+    getValue: (image) => image.metadata.capture && formatCaptureTime(image.metadata),
+  },
+  { key: 'modifyDate', label: 'Modify date', getValue: (image) => getTagDescription(image.tags, 'exif.DateTime') },
+  { key: 'make', label: 'Make', getValue: (image) => image.metadata.make },
+  { key: 'model', label: 'Model', getValue: (image) => image.metadata.model },
+  { key: 'serial', label: 'Body serial', getValue: (image) => getTagDescription(image.tags, 'exif.BodySerialNumber') },
+  { key: 'lens', label: 'Lens', getValue: (image) => image.metadata.lens },
+  { key: 'software', label: 'Software', getValue: (image) => getTagDescription(image.tags, 'exif.Software') },
+  { key: 'exposure', label: 'Exposure', getValue: (image) => image.metadata.exposure },
+  { key: 'fNumber', label: 'F-number', getValue: (image) => image.metadata.fNumber },
+  { key: 'iso', label: 'ISO', getValue: (image) => image.metadata.iso },
+  { key: 'focalLength', label: 'Focal length', getValue: (image) => image.metadata.focalLength },
+  { key: 'focalLength35mm', label: 'Focal length (35mm)', getValue: (image) => image.metadata.focalLength35mm },
+  {
+    key: 'gps',
+    label: 'GPS',
+    getValue: (image) =>
+      image.metadata.gps &&
+      `${image.metadata.gps.latitude.toFixed(6)}, ${image.metadata.gps.longitude.toFixed(6)}`,
+  },
+  { key: 'place', label: 'Nearest place', getValue: (image) => image.place && formatPlace(image.place) },
+  { key: 'fileSize', label: 'File size', getValue: (image) => image.file.size },
+  { key: 'fileType', label: 'File type', getValue: getMimeType },
+];
+
+export const buildSummaryRows = (images: UploadedImage[]): ComparisonRow[] =>
+  SUMMARY_FIELDS.map((field) => createRow(field.key, field.label, images.map(field.getValue)));
+
+// One row per tag path found in any of the images, in first-seen order
+export const buildRawTagRows = (images: UploadedImage[], includeUnknown = false): ComparisonRow[] => {
+  const perImage = images.map((image) => {
+    const entries = flattenTags(image.tags).filter((entry) => includeUnknown || !entry.unknown);
+    return new Map(entries.map((entry) => [entry.path, entry.description]));
+  });
+
+  const paths: string[] = [];
+  const seen = new Set<string>();
+  for (const entries of perImage) {
+    for (const path of entries.keys()) {
+      if (!seen.has(path)) {
+        seen.add(path);
+        paths.push(path);
+      }
+    }
+  }
+
+  return paths.map((path) => createRow(path, path, perImage.map((entries) => entries.get(path))));
+};
+
+// A modify date that differs from the capture date usually means the file
+// was saved again by some software after it left the camera
+export const hasModifyDateMismatch = (image: UploadedImage): boolean => {
+  const original = exifDateToIso(getTagDescription(image.tags, 'exif.DateTimeOriginal'));
+  const modified = exifDateToIso(getTagDescription(image.tags, 'exif.DateTime'));
+  return !!original && !!modified && original !== modified;
+};
+
+function createRow(key: string, label: string, rawValues: unknown[]): ComparisonRow {
+  const values = rawValues.map((value) => (value === undefined || value === null ? '' : String(value)));
+  return { key, label, values, differs: new Set(values).size > 1 };
+}
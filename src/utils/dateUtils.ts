@@ -0,0 +1,249 @@
+import { CaptureTime, Confidence, ImageMetadata, RawTags } from '../types';
+import { getTagDescription, getTagValue } from './tagUtils';
+
+// EXIF stores dates as "YYYY:MM:DD HH:MM:SS"; these helpers convert to and
+// from the zone-less ISO form used by datetime-local inputs and exports
+export const exifDateToIso = (value?: string): string => {
+  const match = value?.match(/^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?/);
+  if (!match) return '';
+  return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6] ?? '00'}`;
+};
+
+export const isoToExifDate = (value: string): string => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?/);
+  if (!match) return '';
+  return `${match[1]}:${match[2]}:${match[3]} ${match[4]}:${match[5]}:${match[6] ?? '00'}`;
+};
+
+// Moves an EXIF or ISO date by whole seconds; returns '' when it can't be parsed
+export const shiftExifDate = (value: string | undefined, seconds: number): string => {
+  const ms = Date.parse(`${exifDateToIso(value)}Z`);
+  if (isNaN(ms)) return '';
+  return isoToExifDate(new Date(ms + seconds * 1000).toISOString());
+};
+
+// Camera and GPS clocks further apart than this are flagged
+export const CLOCK_MISMATCH_THRESHOLD_SECONDS = 120;
+
+// Capture date tags, most trustworthy first; also the candidates for the
+// displayed dateTime, so the two always agree on the source
+export const DATE_SOURCES: { path: string; confidence: Confidence; offset?: string; subSeconds?: string }[] = [
+  {
+    path: 'exif.DateTimeOriginal',
+    confidence: 'high',
+    offset: 'exif.OffsetTimeOriginal',
+    subSeconds: 'exif.SubSecTimeOriginal',
+  },
+  {
+    path: 'exif.DateTimeDigitized',
+    confidence: 'medium',
+    offset: 'exif.OffsetTimeDigitized',
+    subSeconds: 'exif.SubSecTimeDigitized',
+  },
+  { path: 'xmp.DateTimeOriginal', confidence: 'medium' },
+  { path: 'xmp.CreateDate', confidence: 'medium' },
+  { path: 'xmp.DateCreated', confidence: 'medium' },
+  // Modification times, only close to the capture for unedited files
+  { path: 'exif.DateTime', confidence: 'low', offset: 'exif.OffsetTime', subSeconds: 'exif.SubSecTime' },
+  { path: 'xmp.ModifyDate', confidence: 'low' },
+];
+
+// A zone inferred from GPS time alone absorbs up to 15 minutes of camera
+// clock drift, so it stays a guess until the GPS position confirms it
+const GPS_TIME_OFFSET = 'GPS time';
+export const GPS_POSITION_OFFSET = 'GPS time and position';
+
+const MAX_OFFSET_MINUTES = 14 * 60;
+
+export const parseCaptureTime = (tags: RawTags | undefined): CaptureTime | undefined => {
+  const gpsTimestamp = parseGpsTimestamp(tags);
+
+  for (const source of DATE_SOURCES) {
+    const parsed = parseDateString(getTagDescription(tags, source.path));
+    if (!parsed) continue;
+
+    let { local } = parsed;
+    const subSeconds = source.subSeconds && getTagDescription(tags, source.subSeconds)?.trim();
+    if (subSeconds && /^\d+$/.test(subSeconds) && !local.includes('.')) {
+      local = `${local}.${subSeconds}`;
+    }
+
+    let offset = parsed.offset;
+    let offsetSource = offset ? source.path : undefined;
+    const offsetTag = source.offset && normalizeOffset(getTagDescription(tags, source.offset));
+    if (!offset && offsetTag) {
+      offset = offsetTag;
+      offsetSource = source.offset;
+    }
+
+    return resolveCaptureTime({ local, source: source.path, offset, offsetSource, gpsTimestamp });
+  }
+
+  return undefined;
+};
+
+// Fills in the timestamp and GPS comparison; without an offset tag the zone
+// is inferred from GPS time, rounded to the nearest half hour
+export const resolveCaptureTime = (capture: CaptureTime): CaptureTime => {
+  const localMs = Date.parse(`${capture.local}Z`);
+  if (isNaN(localMs)) return capture;
+
+  let { offset, offsetSource } = capture;
+  let offsetMinutes = parseOffsetMinutes(offset);
+  let clockOffsetSeconds: number | undefined;
+
+  if (capture.gpsTimestamp !== undefined) {
+    const diffMinutes = (localMs - capture.gpsTimestamp) / 60000;
+    if (offsetMinutes === undefined) {
+      const inferred = Math.round(diffMinutes / 30) * 30;
+      if (Math.abs(inferred) <= MAX_OFFSET_MINUTES) {
+        offsetMinutes = inferred;
+        offset = formatOffset(inferred);
+        offsetSource = GPS_TIME_OFFSET;
+      }
+    }
+    if (offsetMinutes !== undefined) {
+      clockOffsetSeconds = Math.round((diffMinutes - offsetMinutes) * 60);
+    }
+  }
+
+  return {
+    ...capture,
+    offset,
+    offsetSource,
+    timestamp: offsetMinutes === undefined ? undefined : localMs - offsetMinutes * 60000,
+    clockOffsetSeconds,
+    clockMismatch:
+      clockOffsetSeconds !== undefined && Math.abs(clockOffsetSeconds) > CLOCK_MISMATCH_THRESHOLD_SECONDS,
+  };
+};
+
+export const isGuessedOffset = (capture: CaptureTime | undefined): boolean =>
+  capture?.offsetSource === GPS_TIME_OFFSET;
+
+// Checks a zone inferred from GPS time against the zones of the country the
+// photo was taken in. The country's zone nearest to the camera time wins, so
+// drift that rounding would have hidden shows up as a clock mismatch.
+export const withCountryZone = (capture: CaptureTime | undefined, countryCode: string | undefined): CaptureTime | undefined => {
+  if (capture?.offsetSource !== GPS_TIME_OFFSET && capture?.offsetSource !== GPS_POSITION_OFFSET) return capture;
+
+  const inferred = resolveCaptureTime({ ...capture, offset: undefined, offsetSource: undefined });
+  const localMs = Date.parse(`${capture.local}Z`);
+  const offsets =
+    countryCode && inferred.gpsTimestamp !== undefined ? getCountryOffsets(countryCode, inferred.gpsTimestamp) : [];
+  if (offsets.length === 0 || isNaN(localMs)) return inferred;
+
+  const diffMinutes = (localMs - inferred.gpsTimestamp!) / 60000;
+  const nearest = offsets.reduce((best, offset) =>
+    Math.abs(offset - diffMinutes) < Math.abs(best - diffMinutes) ? offset : best,
+  );
+  return resolveCaptureTime({ ...inferred, offset: formatOffset(nearest), offsetSource: GPS_POSITION_OFFSET });
+};
+
+// Sort key in milliseconds: true UTC when the zone is known, otherwise the
+// wall-clock time read as if it were UTC
+export const getCaptureTimestamp = (metadata: ImageMetadata): number | undefined => {
+  if (metadata.capture?.timestamp !== undefined) return metadata.capture.timestamp;
+  const local = metadata.capture?.local || exifDateToIso(metadata.dateTime);
+  const ms = local ? Date.parse(`${local}Z`) : NaN;
+  return isNaN(ms) ? undefined : ms;
+};
+
+// Moves the capture to a new wall-clock time, keeping its zone and GPS time
+export const retimeCapture = (capture: CaptureTime | undefined, local: string, source: string): CaptureTime =>
+  resolveCaptureTime({
+    ...capture,
+    local,
+    source,
+    timestamp: undefined,
+    clockOffsetSeconds: undefined,
+    clockMismatch: undefined,
+  });
+
+// ISO 8601 with the UTC offset when it is known, e.g. for GPX and KML
+export const formatCaptureTime = (metadata: ImageMetadata): string => {
+  const capture = metadata.capture;
+  if (!capture) return exifDateToIso(metadata.dateTime);
+  return capture.offset ? `${capture.local}${capture.offset}` : capture.local;
+};
+
+export const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+};
+
+export const formatDuration = (seconds: number): string => {
+  const abs = Math.abs(Math.round(seconds));
+  const parts = [
+    [Math.floor(abs / 86400), 'd'],
+    [Math.floor((abs % 86400) / 3600), 'h'],
+    [Math.floor((abs % 3600) / 60), 'm'],
+    [abs % 60, 's'],
+  ].filter(([value]) => value);
+  const text = parts.map(([value, unit]) => `${value}${unit}`).join(' ') || '0s';
+  return seconds < 0 ? `-${text}` : text;
+};
+
+// Accepts EXIF "YYYY:MM:DD HH:MM:SS" and ISO/XMP dates with optional
+// fraction and zone
+function parseDateString(value?: string): { local: string; offset?: string } | undefined {
+  const match = value
+    ?.trim()
+    .match(/^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?(\.\d+)?\s*(Z|[+-]\d{2}:?\d{2})?$/);
+  if (!match || match[1] === '0000') return undefined;
+  return {
+    local: `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6] ?? '00'}${match[7] ?? ''}`,
+    offset: normalizeOffset(match[8]),
+  };
+}
+
+function normalizeOffset(value?: string): string | undefined {
+  if (!value) return undefined;
+  if (value.trim() === 'Z') return '+00:00';
+  const match = value.trim().match(/^([+-])(\d{2}):?(\d{2})$/);
+  return match ? `${match[1]}${match[2]}:${match[3]}` : undefined;
+}
+
+function parseOffsetMinutes(offset?: string): number | undefined {
+  const match = offset?.match(/^([+-])(\d{2}):(\d{2})$/);
+  if (!match) return undefined;
+  const minutes = parseInt(match[2]) * 60 + parseInt(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+// UTC offsets in use in the country at that moment; empty where the browser
+// can't list a region's time zones
+function getCountryOffsets(countryCode: string, at: number): number[] {
+  let zones: string[] | undefined;
+  try {
+    const locale = new Intl.Locale(`und-${countryCode}`) as Intl.Locale & {
+      getTimeZones?: () => string[];
+      timeZones?: string[];
+    };
+    zones = locale.getTimeZones?.() ?? locale.timeZones;
+  } catch {
+    return [];
+  }
+
+  const offsets = (zones ?? []).flatMap((timeZone) => {
+    const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+      .formatToParts(at)
+      .find((part) => part.type === 'timeZoneName')?.value;
+    const minutes = name === 'GMT' ? 0 : parseOffsetMinutes(name?.replace('GMT', ''));
+    return minutes === undefined ? [] : [minutes];
+  });
+  return [...new Set(offsets)];
+}
+
+function parseGpsTimestamp(tags: RawTags | undefined): number | undefined {
+  const date = getTagDescription(tags, 'exif.GPSDateStamp')?.match(/^(\d{4})[:-](\d{2})[:-](\d{2})/);
+  const time = getTagValue(tags, 'exif.GPSTimeStamp') as { value?: unknown } | undefined;
+  if (!date || !Array.isArray(time?.value) || time.value.length !== 3) return undefined;
+
+  const [hours, minutes, seconds] = (time.value as [number, number][]).map(([numerator, denominator]) =>
+    denominator ? numerator / denominator : NaN,
+  );
+  const ms = Date.UTC(+date[1], +date[2] - 1, +date[3], 0, 0, 0) + ((hours * 60 + minutes) * 60 + seconds) * 1000;
+  return isNaN(ms) ? undefined : ms;
+}
@@ -0,0 +1,131 @@
+import { ImageHashes, UploadedImage } from '../types';
+import { Rotation, getDifferenceHash, getHashDistance, loadBitmap } from './imageHashUtils';
+import { flattenTags } from './tagUtils';
+
+export interface DuplicateGroup {
+  images: UploadedImage[];
+  // Every copy has the same bytes
+  identical: boolean;
+  // The copy with the richest metadata, suggested as the one to keep
+  keepId: string;
+}
+
+export interface MetadataRichness {
+  score: number;
+  features: string[];
+}
+
+// Out of 64 bits; resizing and recompression flip only a few
+export const SIMILAR_HASH_DISTANCE = 10;
+// Relative aspect-ratio difference still treated as the same framing
+const SIMILAR_ASPECT_DIFFERENCE = 0.05;
+const HASH_WIDTH = 256;
+const ROTATIONS: Rotation[] = [0, 90, 180, 270];
+
+// Adds file and perceptual hashes once; the perceptual hash is skipped for
+// files the browser can't decode
+export const withHashes = async (image: UploadedImage): Promise<UploadedImage> => {
+  if (image.hashes) return image;
+  try {
+    const hashes: ImageHashes = { sha256: await getFileHash(image.file) };
+    try {
+      const bitmap = await loadBitmap(image.preview, HASH_WIDTH);
+      hashes.perceptual = ROTATIONS.map((rotation) => getDifferenceHash(bitmap, undefined, rotation));
+      hashes.aspect = bitmap.width / bitmap.height;
+      bitmap.close();
+    } catch (error) {
+      console.warn(`Could not hash pixels of ${image.metadata.fileName}:`, error);
+    }
+    return { ...image, hashes };
+  } catch (error) {
+    console.error('Error hashing image:', error);
+    return image;
+  }
+};
+
+export const getFileHash = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Smallest hash distance over the four rotations, so a copy that lost its
+// Orientation tag still matches. Undefined when the framing differs.
+export const getSimilarity = (a: ImageHashes, b: ImageHashes): number | undefined => {
+  if (!a.perceptual || !b.perceptual || !a.aspect || !b.aspect) return undefined;
+
+  let best: number | undefined;
+  ROTATIONS.forEach((rotation, index) => {
+    const aspect = rotation % 180 === 0 ? a.aspect! : 1 / a.aspect!;
+    if (Math.abs(aspect - b.aspect!) / b.aspect! > SIMILAR_ASPECT_DIFFERENCE) return;
+    const distance = getHashDistance(a.perceptual![index], b.perceptual![0]);
+    if (best === undefined || distance < best) best = distance;
+  });
+  return best;
+};
+
+export const getMetadataRichness = (image: UploadedImage): MetadataRichness => {
+  const { metadata } = image;
+  const features: string[] = [];
+  let score = 0;
+  const add = (present: unknown, feature: string, weight: number) => {
+    if (!present) return;
+    features.push(feature);
+    score += weight;
+  };
+
+  add(metadata.gps, 'GPS', 5);
+  add(metadata.capture ?? metadata.dateTime, 'Capture date', 3);
+  add(metadata.make || metadata.model, 'Camera', 2);
+  add(metadata.lens, 'Lens', 1);
+  add(metadata.exposure || metadata.fNumber || metadata.iso, 'Exposure', 1);
+  add(metadata.thumbnail, 'Thumbnail', 1);
+
+  const tagCount = flattenTags(image.tags).length;
+  features.push(`${tagCount} tags`);
+  // Tags only break ties between copies with the same fields
+  score += tagCount / 1000;
+
+  return { score, features };
+};
+
+// Groups uploads that are byte-identical or look the same. Groups are
+// transitive: A~B and B~C put A, B and C together.
+export const findDuplicateGroups = (images: UploadedImage[]): DuplicateGroup[] => {
+  const parent = images.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+
+  for (let i = 0; i < images.length; i++) {
+    const a = images[i].hashes;
+    if (!a) continue;
+    for (let j = i + 1; j < images.length; j++) {
+      const b = images[j].hashes;
+      if (!b) continue;
+      const distance = a.sha256 === b.sha256 ? 0 : getSimilarity(a, b);
+      if (distance !== undefined && distance <= SIMILAR_HASH_DISTANCE) parent[find(j)] = find(i);
+    }
+  }
+
+  const members: UploadedImage[][] = [];
+  images.forEach((image, index) => {
+    const root = find(index);
+    (members[root] ??= []).push(image);
+  });
+
+  return members
+    .filter((group) => group && group.length > 1)
+    .map((group) => {
+      const richest = group.reduce((best, image) =>
+        compareCopies(image, best) > 0 ? image : best,
+      );
+      return {
+        images: group,
+        identical: group.every((image) => image.hashes!.sha256 === group[0].hashes!.sha256),
+        keepId: richest.id,
+      };
+    });
+};
+
+// Richer metadata wins, then the larger file (less recompression)
+function compareCopies(a: UploadedImage, b: UploadedImage): number {
+  return getMetadataRichness(a).score - getMetadataRichness(b).score || a.file.size - b.file.size;
+}
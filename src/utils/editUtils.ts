@@ -0,0 +1,234 @@
+import { GpsSource, ImageMetadata, MetadataEdits, UploadedImage } from '../types';
+import {
+  EXIF_HEADER,
+  JpegSegment,
+  buildJpeg,
+  createSegment,
+  createXmpSegment,
+  getSegmentKind,
+  parseJpeg,
+  readXmpPacket,
+} from './jpegUtils';
+import {
+  ExifStructure,
+  IfdEntry,
+  TiffTag,
+  asciiEntry,
+  byteEntry,
+  createExifStructure,
+  rationalEntry,
+  shortEntry,
+  readExif,
+  removeEntries,
+  setEntry,
+  writeExif,
+} from './tiffUtils';
+import { stripXmpGps } from './sanitizeUtils';
+import { exifDateToIso, retimeCapture, shiftExifDate } from './dateUtils';
+import { getModelLabel } from './exifUtils';
+import { getTagDescription } from './tagUtils';
+
+export const GPS_SOURCE_LABELS: Record<GpsSource, string> = {
+  exif: 'From EXIF',
+  track: 'From track log',
+  user: 'User-assigned',
+};
+
+const GPS_POSITION_TAGS: number[] = [
+  TiffTag.GpsLatitudeRef,
+  TiffTag.GpsLatitude,
+  TiffTag.GpsLongitudeRef,
+  TiffTag.GpsLongitude,
+  // Describes the replaced fix, not the new position
+  TiffTag.GpsHPositioningError,
+];
+
+// Merges new edits into the image and mirrors them onto the displayed metadata
+export const applyMetadataEdits = (
+  image: UploadedImage,
+  edits: MetadataEdits,
+): UploadedImage => {
+  const metadata = { ...image.metadata };
+
+  if (edits.dateTime !== undefined) {
+    metadata.dateTime = edits.dateTime || undefined;
+    metadata.capture = edits.dateTime
+      ? retimeCapture(metadata.capture, exifDateToIso(edits.dateTime), 'edited')
+      : undefined;
+  }
+  if (edits.make !== undefined) metadata.make = edits.make || undefined;
+  if (edits.make !== undefined || edits.model !== undefined) {
+    metadata.model = getModelLabel(metadata.make, (edits.model ?? getRecordedModel(image)) || undefined);
+  }
+  if (edits.lens !== undefined) metadata.lens = edits.lens || undefined;
+  if (edits.orientation !== undefined) metadata.orientation = edits.orientation;
+  if (edits.gps !== undefined) {
+    // Heading and altitude stay in the file; the old fix's accuracy is removed with it
+    const { horizontalError: _horizontalError, ...details } = metadata.gps ?? {};
+    metadata.gps = edits.gps ? { ...details, ...edits.gps } : undefined;
+    metadata.gpsSource = edits.gps ? edits.gpsSource ?? 'user' : undefined;
+  }
+
+  if (metadata.provenance) {
+    // Edited fields no longer come from the file's tags
+    metadata.provenance = Object.fromEntries(
+      Object.entries(metadata.provenance).filter(([key]) => edits[key as keyof MetadataEdits] === undefined),
+    );
+    // A new make only changes how the recorded model is labelled
+    const model = metadata.provenance.model;
+    if (model && metadata.model) metadata.provenance.model = { ...model, value: metadata.model };
+  }
+
+  return {
+    ...image,
+    metadata,
+    edits: {
+      ...image.edits,
+      ...edits,
+      ...(edits.gps !== undefined && { gpsSource: metadata.gpsSource }),
+    },
+    // Other formats keep the edits in the gallery and exports only
+    hasUnsavedEdits: canWriteEdits(image),
+  };
+};
+
+// writeMetadataEdits only rewrites JPEG files
+export const canWriteEdits = (image: UploadedImage): boolean => image.metadata.format === 'jpeg';
+
+// Puts back the position an earlier copy of the image had, keeping later non-GPS edits
+export const restoreLocation = (image: UploadedImage, previous: UploadedImage): UploadedImage => {
+  const { gps: _gps, gpsSource: _gpsSource, ...otherEdits } = image.edits ?? {};
+  const edits =
+    previous.edits?.gps !== undefined
+      ? { ...otherEdits, gps: previous.edits.gps, gpsSource: previous.edits.gpsSource }
+      : otherEdits;
+  return {
+    ...image,
+    metadata: {
+      ...image.metadata,
+      gps: previous.metadata.gps,
+      gpsSource: previous.metadata.gpsSource,
+      provenance: image.metadata.provenance && { ...image.metadata.provenance, gps: previous.metadata.provenance?.gps },
+    },
+    edits,
+    place: previous.place,
+  };
+};
+
+// Model as written in the file's Model tag (or a pending edit of it), without
+// the make that the displayed model is prefixed with
+export const getRecordedModel = (image: UploadedImage): string =>
+  image.edits?.model ??
+  image.metadata.provenance?.model?.raw ??
+  getTagDescription(image.tags, 'exif.Model')?.trim() ??
+  image.metadata.model ??
+  '';
+
+export const getGpsSource = (metadata: ImageMetadata): GpsSource | undefined =>
+  metadata.gps ? metadata.gpsSource ?? 'exif' : undefined;
+
+// Shifts the capture time as an edit, so it is sorted, exported and written
+// back like any other change; images without a readable date are returned as is
+export const applyClockShift = (image: UploadedImage, seconds: number): UploadedImage => {
+  const dateTime = shiftExifDate(getCorrectableDate(image), seconds);
+  return dateTime ? applyMetadataEdits(image, { dateTime }) : image;
+};
+
+export const getCorrectableDate = (image: UploadedImage): string | undefined =>
+  image.metadata.capture?.local ?? image.metadata.dateTime;
+
+// Produces a copy of the JPEG with the edits written into its EXIF block.
+// Only the APP1 segments change; the compressed image data is copied verbatim.
+export const writeMetadataEdits = async (
+  file: Blob,
+  edits: MetadataEdits,
+): Promise<Blob> => {
+  const jpeg = parseJpeg(await file.arrayBuffer());
+  const segments = [...jpeg.segments];
+
+  const exifIndex = segments.findIndex((segment) => getSegmentKind(segment) === 'exif');
+  const structure =
+    exifIndex >= 0
+      ? readExif(segments[exifIndex].data.subarray(EXIF_HEADER.length))
+      : createExifStructure();
+
+  const exifSegment = createSegment(0xe1, EXIF_HEADER, writeExif(applyExifEdits(structure, edits)));
+
+  if (exifIndex >= 0) {
+    segments[exifIndex] = exifSegment;
+  } else {
+    // EXIF must follow a JFIF APP0 segment when one is present
+    const insertAt = segments[0] && getSegmentKind(segments[0]) === 'jfif' ? 1 : 0;
+    segments.splice(insertAt, 0, exifSegment);
+  }
+
+  const output = edits.gps !== undefined ? segments.map(withoutXmpGps) : segments;
+
+  return new Blob([buildJpeg({ ...jpeg, segments: output })], { type: 'image/jpeg' });
+};
+
+export const getEditedFileName = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? `${fileName.slice(0, dot)}-edited${fileName.slice(dot)}` : `${fileName}-edited.jpg`;
+};
+
+function applyExifEdits(source: ExifStructure, edits: MetadataEdits): ExifStructure {
+  const structure = { ...source };
+  const { littleEndian } = structure;
+
+  if (edits.make !== undefined) {
+    structure.ifd0 = updateAscii(structure.ifd0, TiffTag.Make, edits.make);
+  }
+  if (edits.model !== undefined) {
+    structure.ifd0 = updateAscii(structure.ifd0, TiffTag.Model, edits.model);
+  }
+  if (edits.lens !== undefined) {
+    structure.exif = updateAscii(structure.exif, TiffTag.LensModel, edits.lens);
+  }
+  if (edits.orientation !== undefined) {
+    structure.ifd0 = setEntry(structure.ifd0, shortEntry(TiffTag.Orientation, [edits.orientation], littleEndian));
+  }
+  if (edits.dateTime !== undefined) {
+    structure.exif = updateAscii(structure.exif, TiffTag.DateTimeOriginal, edits.dateTime);
+    structure.exif = updateAscii(structure.exif, TiffTag.CreateDate, edits.dateTime);
+  }
+
+  if (edits.gps !== undefined) {
+    let gps = removeEntries(structure.gps, GPS_POSITION_TAGS);
+    if (edits.gps) {
+      const { latitude, longitude } = edits.gps;
+      gps = setEntry(gps, byteEntry(TiffTag.GpsVersionId, [2, 3, 0, 0]));
+      gps = setEntry(gps, asciiEntry(TiffTag.GpsLatitudeRef, latitude < 0 ? 'S' : 'N'));
+      gps = setEntry(gps, rationalEntry(TiffTag.GpsLatitude, toDmsRationals(latitude), littleEndian));
+      gps = setEntry(gps, asciiEntry(TiffTag.GpsLongitudeRef, longitude < 0 ? 'W' : 'E'));
+      gps = setEntry(gps, rationalEntry(TiffTag.GpsLongitude, toDmsRationals(longitude), littleEndian));
+    } else if (gps.every((entry) => entry.tag === TiffTag.GpsVersionId)) {
+      gps = [];
+    }
+    structure.gps = gps;
+  }
+
+  return structure;
+}
+
+function updateAscii(entries: IfdEntry[], tag: number, value: string): IfdEntry[] {
+  return value ? setEntry(entries, asciiEntry(tag, value)) : removeEntries(entries, [tag]);
+}
+
+function toDmsRationals(decimal: number): [number, number][] {
+  const absolute = Math.abs(decimal);
+  const degrees = Math.floor(absolute);
+  const minutesFloat = (absolute - degrees) * 60;
+  const minutes = Math.floor(minutesFloat);
+  const seconds = Math.round((minutesFloat - minutes) * 60 * 10000);
+  return [
+    [degrees, 1],
+    [minutes, 1],
+    [seconds, 10000],
+  ];
+}
+
+function withoutXmpGps(segment: JpegSegment): JpegSegment {
+  if (getSegmentKind(segment) !== 'xmp') return segment;
+  return createXmpSegment(stripXmpGps(readXmpPacket(segment)));
+}
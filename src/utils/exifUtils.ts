@@ -1,457 +1,426 @@
 import ExifReader from 'exifreader';
-import { ImageMetadata } from '../types';
+import {
+  Confidence,
+  ExtractionResult,
+  GpsPosition,
+  ImageMetadata,
+  NormalizedMetadata,
+  PixelDimensions,
+  RawTags,
+  Resolution,
+  SourcedValue,
+} from '../types';
+import { isJpeg, scanJpegHeader } from './jpegUtils';
+import { DATE_SOURCES, parseCaptureTime } from './dateUtils';
+import { FORMAT_SIGNATURE_LENGTH, IMAGE_FORMATS, detectImageFormat } from './formatUtils';
+import { findPreviewJpeg, getMetadataBuffer } from './rawUtils';
+import { getTagDescription, getTagNumber, getTagValue } from './tagUtils';
 
-export const extractImageMetadata = async (file: File): Promise<ImageMetadata> => {
-  return new Promise((resolve) => {
-    const reader = new FileReader();
-    
-    reader.onload = async (e) => {
-      try {
-        if (!e.target?.result) {
-          throw new Error('Failed to read file');
-        }
-        
-        const options = {
-          expanded: true,
-          includeUnknown: true,
-          reviveValues: true,
-          translateKeys: true,
-          translateValues: true,
-        };
-        
-        const timeoutPromise = new Promise<any>((_, reject) => {
-          setTimeout(() => reject(new Error('EXIF extraction timeout')), 10000);
-        });
-        
-        const tags = await Promise.race([
-          ExifReader.load(e.target.result, options),
-          timeoutPromise
-        ]).catch(err => {
-          console.warn('EXIF extraction issue:', err);
-          return {};
-        });
-
-        // Log temporal para diagnóstico en móviles
-        console.log('Raw EXIF Tags:', JSON.stringify(tags, null, 2));
-        
-        if (!tags || Object.keys(tags).length === 0) {
-          console.warn('No EXIF data found or extraction failed');
-          return resolve({ fileName: file.name });
-        }
-        
-        const gpsData = findGpsData(tags);
-        
-        const make = findValue(tags, [
-          'Make', 'Manufacturer', 'CameraManufacturer', 'xmp:Make',
-          'Software', 'DeviceManufacturer', 'MakerNote', 'Brand',
-          'Producer', 'CameraMake', 'Vendor'
-        ])?.trim();
-
-        const model = findValue(tags, [
-          'Model', 'CameraModel', 'DeviceModel', 'xmp:Model',
-          'CameraModelName', 'CameraType', 'HandlerType',
-          'DeviceName', 'PhoneModel'
-        ])?.trim();
-        
-        const cleanModel = model && make ? 
-          (model.toLowerCase().includes(make.toLowerCase()) ? 
-            model : 
-            `${make} ${model}`) :
-          model;
-        
-        const metadata: ImageMetadata = {
-          fileName: file.name,
-          dateTime: findValue(tags, [
-            'DateTimeOriginal', 'DateTime', 'CreateDate', 'ModifyDate', 
-            'xmp:CreateDate', 'MediaCreateDate', 'DateCreated', 'ContentCreateDate'
-          ]),
-          make,
-          model: cleanModel,
-          exposure: extractExposureTime(tags),
-          fNumber: extractFNumber(tags),
-          iso: extractISO(tags),
-          focalLength: extractFocalLength(tags),
-          software: findValue(tags, ['Software', 'ProcessingSoftware', 'Creator']),
-          orientation: extractOrientation(tags),
-          resolution: extractResolution(tags),
-          whiteBalance: findValue(tags, ['WhiteBalance', 'WB']),
-          flash: findValue(tags, ['Flash', 'FlashMode', 'FlashFired']),
-          lens: findValue(tags, ['LensModel', 'Lens', 'LensInfo', 'LensMake']),
-          gps: gpsData
-        };
-        
-        resolve(metadata);
-        
-      } catch (error) {
-        console.error('Error extracting EXIF metadata:', error);
-        resolve({
-          fileName: file.name
-        });
-      }
-    };
-    
-    reader.onerror = () => {
-      console.error('Error reading file');
-      resolve({
-        fileName: file.name
-      });
+// Only the header segments of a JPEG hold metadata, so large photos are read
+// in growing chunks until the scan data starts instead of all at once
+const JPEG_HEADER_CHUNK = 128 * 1024;
+// GPSSpeedRef units: km/h, miles per hour and knots
+const SPEED_UNITS_KMH: Record<string, number> = { K: 1, M: 1.609344, N: 1.852 };
+
+// Tags that can supply a field, most trustworthy first
+type Candidate = [source: string, confidence: Confidence];
+
+const DATE_TAGS: Candidate[] = DATE_SOURCES.map(({ path, confidence }) => [path, confidence]);
+const MAKE_TAGS: Candidate[] = [['exif.Make', 'high'], ['xmp.Make', 'medium']];
+const MODEL_TAGS: Candidate[] = [['exif.Model', 'high'], ['xmp.Model', 'medium']];
+const LENS_TAGS: Candidate[] = [
+  ['exif.LensModel', 'high'],
+  ['xmp.LensModel', 'medium'],
+  ['xmp.Lens', 'medium'],
+  // Only the focal and aperture range, not the lens name
+  ['exif.LensInfo', 'low'],
+];
+const EXPOSURE_TAGS: Candidate[] = [['exif.ExposureTime', 'high'], ['xmp.ExposureTime', 'medium']];
+const F_NUMBER_TAGS: Candidate[] = [['exif.FNumber', 'high'], ['xmp.FNumber', 'medium']];
+const ISO_TAGS: Candidate[] = [['exif.ISOSpeedRatings', 'high'], ['exif.ISOSpeed', 'medium'], ['xmp.ISOSpeedRatings', 'medium']];
+const FOCAL_LENGTH_TAGS: Candidate[] = [['exif.FocalLength', 'high'], ['xmp.FocalLength', 'medium']];
+const FOCAL_LENGTH_35MM_TAGS: Candidate[] = [['exif.FocalLengthIn35mmFilm', 'high'], ['xmp.FocalLengthIn35mmFilm', 'medium']];
+const ORIENTATION_TAGS: Candidate[] = [['exif.Orientation', 'high'], ['xmp.Orientation', 'medium']];
+const SOFTWARE_TAGS: Candidate[] = [['exif.Software', 'high'], ['exif.ProcessingSoftware', 'medium'], ['xmp.CreatorTool', 'medium']];
+const WHITE_BALANCE_TAGS: Candidate[] = [['exif.WhiteBalance', 'high']];
+const FLASH_TAGS: Candidate[] = [['exif.Flash', 'high']];
+
+// Print density; the EXIF unit defaults to inches when the tag is missing
+const RESOLUTION_SOURCES: {
+  x: string;
+  y: string;
+  unit: string;
+  units: Record<number, Resolution['unit']>;
+  defaultUnit?: Resolution['unit'];
+  confidence: Confidence;
+}[] = [
+  {
+    x: 'exif.XResolution',
+    y: 'exif.YResolution',
+    unit: 'exif.ResolutionUnit',
+    units: { 1: 'none', 2: 'inch', 3: 'cm' },
+    defaultUnit: 'inch',
+    confidence: 'high',
+  },
+  { x: 'jfif.XResolution', y: 'jfif.YResolution', unit: 'jfif.Resolution Unit', units: { 0: 'none', 1: 'inch', 2: 'cm' }, confidence: 'medium' },
+];
+
+// Pixel size from the image data itself, then the sizes EXIF claims
+const DIMENSION_SOURCES: [width: string, height: string, confidence: Confidence][] = [
+  ['file.Image Width', 'file.Image Height', 'high'],
+  ['pngFile.Image Width', 'pngFile.Image Height', 'high'],
+  ['exif.PixelXDimension', 'exif.PixelYDimension', 'medium'],
+  ['exif.ImageWidth', 'exif.ImageLength', 'medium'],
+];
+
+export const extractImageMetadata = async (file: File): Promise<ExtractionResult> => {
+  try {
+    const buffer = await readMetadataBytes(file);
+    const bytes = new Uint8Array(buffer);
+    const format = detectImageFormat(bytes.subarray(0, FORMAT_SIGNATURE_LENGTH), file.name);
+    const result = await extractMetadataFromBuffer(getMetadataBuffer(buffer, format), file.name);
+    result.metadata.format = format;
+    if (format && (IMAGE_FORMATS[format].raw || format === 'tiff')) {
+      result.preview = findPreviewJpeg(bytes);
+    }
+    return result;
+  } catch (error) {
+    console.error('Error reading file:', error);
+    return {
+      metadata: { fileName: file.name },
+      tags: {}
     };
-    
-    reader.readAsArrayBuffer(file);
-  });
+  }
 };
 
-function findValue(tags: any, possibleKeys: string[]): string | undefined {
-  if (!tags) return undefined;
-  
-  for (const key of possibleKeys) {
-    if (tags[key]?.description) return tags[key].description;
-    if (tags[key]?.value !== undefined) return String(tags[key].value);
-    if (typeof tags[key] === 'string' || typeof tags[key] === 'number') return String(tags[key]);
+export const readMetadataBytes = async (file: File): Promise<ArrayBuffer> => {
+  let size = Math.min(JPEG_HEADER_CHUNK, file.size);
+  let bytes = new Uint8Array(await file.slice(0, size).arrayBuffer());
+
+  if (!isJpeg(bytes)) {
+    return size === file.size ? bytes.buffer : file.arrayBuffer();
   }
-  
-  const subObjects = ['xmp', 'exif', 'gps', 'GPS', 'ifd0', 'ifd1', 'apple', 'samsung', 
-                     'google', 'huawei', 'xiaomi', 'oppo', 'vivo', 'motorola', 'lg'];
-  
-  for (const subObj of subObjects) {
-    if (!tags[subObj]) continue;
-    
-    for (const key of possibleKeys) {
-      if (tags[subObj][key]?.description) return tags[subObj][key].description;
-      if (tags[subObj][key]?.value !== undefined) return String(tags[subObj][key].value);
-      if (typeof tags[subObj][key] === 'string' || typeof tags[subObj][key] === 'number') {
-        return String(tags[subObj][key]);
-      }
-    }
+
+  while (size < file.size) {
+    const header = scanJpegHeader(bytes);
+    if (header.complete) return bytes.buffer.slice(0, header.length);
+
+    size = Math.min(file.size, Math.max(header.length, size * 2));
+    bytes = new Uint8Array(await file.slice(0, size).arrayBuffer());
   }
-  
-  return searchInNestedPaths(tags, possibleKeys);
-}
 
-function searchInNestedPaths(tags: any, possibleKeys: string[]): string | undefined {
-  const devicePaths = [
-    'MakerNote.Apple', 'apple.tags', 'Apple',
-    'MakerNote.Samsung', 'samsung.tags', 'Samsung',
-    'MakerNote.Huawei', 'huawei.tags', 'Huawei',
-    'MakerNote.Google', 'google.tags', 'Google',
-    'geo', 'location', 'coordinates',
-    'Composite.GPSPosition'
-  ];
-  
-  for (const path of devicePaths) {
-    const parts = path.split('.');
-    let current = tags;
+  return bytes.buffer;
+};
+
+export const extractMetadataFromBuffer = async (
+  buffer: ArrayBuffer,
+  fileName: string
+): Promise<ExtractionResult> => {
+  try {
+    const options = {
+      expanded: true,
+      includeUnknown: true,
+      reviveValues: true,
+      translateKeys: true,
+      translateValues: true,
+    } as const;
     
-    for (const part of parts) {
-      if (!current[part]) break;
-      current = current[part];
-      
-      for (const key of possibleKeys) {
-        if (current[key]?.description) return current[key].description;
-        if (current[key]?.value !== undefined) return String(current[key].value);
-        if (typeof current[key] === 'string' || typeof current[key] === 'number') {
-          return String(current[key]);
-        }
-      }
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      setTimeout(() => reject(new Error('EXIF extraction timeout')), 10000);
+    });
+    
+    const tags = await Promise.race([
+      ExifReader.load(buffer, options),
+      timeoutPromise
+    ]).catch((err): RawTags => {
+      console.warn('EXIF extraction issue:', err);
+      return {};
+    });
+
+    if (!tags || Object.keys(tags).length === 0) {
+      console.warn('No EXIF data found or extraction failed');
+      return { metadata: { fileName }, tags: {} };
     }
+
+    const provenance = normalizeMetadata(tags);
+    const metadata: ImageMetadata = {
+      fileName,
+      ...getNormalizedValues(provenance),
+      capture: parseCaptureTime(tags),
+      thumbnail: extractThumbnail(tags),
+      provenance,
+    };
+    
+    return { metadata, tags };
+    
+  } catch (error) {
+    console.error('Error extracting EXIF metadata:', error);
+    return {
+      metadata: { fileName },
+      tags: {}
+    };
   }
-  
-  return undefined;
+};
+
+// One line such as `exif.Model, recorded as "EOS R5" (high confidence)`
+export const describeSource = (field: SourcedValue<unknown>): string => {
+  const recorded = field.raw && field.raw !== String(field.value) ? `, recorded as "${field.raw}"` : '';
+  return `${field.source}${recorded} (${field.confidence} confidence)`;
+};
+
+export const formatResolution = ({ x, y, unit }: Resolution): string => {
+  const size = x === y ? `${x}` : `${x} × ${y}`;
+  if (unit === 'inch') return `${size} dpi`;
+  if (unit === 'cm') return `${size} dots/cm`;
+  return `${x}:${y} pixel aspect`;
+};
+
+export const formatDimensions = ({ width, height }: PixelDimensions): string => `${width} × ${height} px`;
+
+// Models are shown with the make unless they already include it; the
+// recorded tag keeps the plain model
+export const getModelLabel = (make: string | undefined, model: string | undefined): string | undefined =>
+  make && model && !model.toLowerCase().includes(make.toLowerCase()) ? `${make} ${model}` : model;
+
+type NormalizedValues = { [K in keyof NormalizedMetadata]?: NonNullable<NormalizedMetadata[K]>['value'] };
+
+// Reads every field from its candidate tags; fields no tag supplies are left out
+function normalizeMetadata(tags: RawTags): NormalizedMetadata {
+  const make = readText(tags, MAKE_TAGS);
+  const model = readText(tags, MODEL_TAGS);
+  if (model) model.value = getModelLabel(make?.value, model.value)!;
+
+  const fields: NormalizedMetadata = {
+    dateTime: readText(tags, DATE_TAGS),
+    make,
+    model,
+    lens: readText(tags, LENS_TAGS),
+    exposure: extractExposureTime(tags),
+    fNumber: extractFNumber(tags),
+    iso: readPositiveNumber(tags, ISO_TAGS),
+    focalLength: readPositiveNumber(tags, FOCAL_LENGTH_TAGS),
+    focalLength35mm: readPositiveNumber(tags, FOCAL_LENGTH_35MM_TAGS),
+    orientation: extractOrientation(tags),
+    software: readText(tags, SOFTWARE_TAGS),
+    whiteBalance: readText(tags, WHITE_BALANCE_TAGS),
+    flash: readText(tags, FLASH_TAGS),
+    resolution: extractResolution(tags),
+    dimensions: extractDimensions(tags),
+    gps: extractGps(tags),
+  };
+  return Object.fromEntries(Object.entries(fields).filter(([, field]) => field)) as NormalizedMetadata;
 }
 
-function findGpsData(tags: any): { latitude: number, longitude: number } | undefined {
-  // 1. Check for iOS location format
-  if (tags.apple?.Location) {
-    const lat = parseFloat(tags.apple.Location.Latitude?.value || tags.apple.Location.Latitude);
-    const lon = parseFloat(tags.apple.Location.Longitude?.value || tags.apple.Location.Longitude);
-    if (isValidCoordinate(lat, lon)) return { latitude: lat, longitude: lon };
-  }
+function getNormalizedValues(provenance: NormalizedMetadata): NormalizedValues {
+  return Object.fromEntries(Object.entries(provenance).map(([key, field]) => [key, field.value])) as NormalizedValues;
+}
 
-  // 2. Check for Android manufacturers
-  const androidManufacturers = ['samsung', 'google', 'huawei', 'xiaomi', 'oppo', 'vivo', 'motorola', 'lg'];
-  for (const manufacturer of androidManufacturers) {
-    if (tags[manufacturer]?.Location) {
-      const lat = parseFloat(tags[manufacturer].Location.Latitude?.value || tags[manufacturer].Location.Latitude);
-      const lon = parseFloat(tags[manufacturer].Location.Longitude?.value || tags[manufacturer].Location.Longitude);
-      if (isValidCoordinate(lat, lon)) return { latitude: lat, longitude: lon };
-    }
-  }
+// The IFD1 JPEG thumbnail as a data URL, small enough to keep with the metadata
+function extractThumbnail(tags: RawTags): string | undefined {
+  const image = tags.Thumbnail?.image;
+  if (!(image instanceof ArrayBuffer) || image.byteLength === 0) return undefined;
 
-  // 3. Check for XMP Location
-  if (tags.xmp?.Location) {
-    const lat = parseFloat(tags.xmp.Location.Latitude?.value || tags.xmp.Location.Latitude);
-    const lon = parseFloat(tags.xmp.Location.Longitude?.value || tags.xmp.Location.Longitude);
-    if (isValidCoordinate(lat, lon)) return { latitude: lat, longitude: lon };
+  const bytes = new Uint8Array(image);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
   }
+  return `data:image/jpeg;base64,${btoa(binary)}`;
+}
 
-  // 4. Check Composite.GPSPosition (common in mobile)
-  if (tags.Composite?.GPSPosition?.description) {
-    const coords = tags.Composite.GPSPosition.description.split(/, |,/);
-    if (coords.length === 2) {
-      const lat = parseFloat(coords[0]);
-      const lon = parseFloat(coords[1]);
-      if (isValidCoordinate(lat, lon)) return { latitude: lat, longitude: lon };
-    }
+function readText(tags: RawTags, candidates: Candidate[]): SourcedValue<string> | undefined {
+  for (const [source, confidence] of candidates) {
+    const raw = getTagDescription(tags, source)?.trim();
+    if (raw) return { value: raw, source, raw, confidence };
   }
+  return undefined;
+}
 
-  // 5. Check standard GPS tags
-  if (tags.GPSLatitude && tags.GPSLongitude) {
-    try {
-      let lat = processGpsValue(tags.GPSLatitude);
-      let lon = processGpsValue(tags.GPSLongitude);
-      
-      if (tags.GPSLatitudeRef?.value === 'S') lat = -lat;
-      if (tags.GPSLongitudeRef?.value === 'W') lon = -lon;
-      
-      if (isValidCoordinate(lat, lon)) return { latitude: lat, longitude: lon };
-    } catch (e) {
-      console.warn("Error processing direct GPS coordinates:", e);
-    }
+// Zero means "unknown" for the numeric EXIF fields
+function readPositiveNumber(tags: RawTags, candidates: Candidate[]): SourcedValue<number> | undefined {
+  for (const [source, confidence] of candidates) {
+    const raw = getTagDescription(tags, source)?.trim() ?? '';
+    const value = parseNumber(raw) ?? getTagNumber(tags, source);
+    if (value !== undefined && value > 0) return { value, source, raw, confidence };
   }
+  return undefined;
+}
 
-  // 6. Check for nested GPS objects
-  const possibleGpsObjects = [tags.GPS, tags.gps, tags.GPSInfo, tags['GPS Info'], tags.exif?.GPS];
-  for (const gpsObj of possibleGpsObjects.filter(Boolean)) {
-    const latValue = getGpsCoordinate(gpsObj, ['GPSLatitude', 'Latitude', 'GpsLatitude', 'lat']);
-    const lonValue = getGpsCoordinate(gpsObj, ['GPSLongitude', 'Longitude', 'GpsLongitude', 'lon']);
-    
-    if (latValue !== undefined && lonValue !== undefined) {
-      try {
-        let lat = typeof latValue === 'number' ? latValue : convertCoordinates(String(latValue));
-        let lon = typeof lonValue === 'number' ? lonValue : convertCoordinates(String(lonValue));
-        
-        const latRef = getGpsRef(gpsObj, ['GPSLatitudeRef', 'LatitudeRef']) || 'N';
-        const lonRef = getGpsRef(gpsObj, ['GPSLongitudeRef', 'LongitudeRef']) || 'E';
-        
-        if (latRef === 'S') lat = -Math.abs(lat);
-        if (lonRef === 'W') lon = -Math.abs(lon);
-        
-        if (isValidCoordinate(lat, lon)) return { latitude: lat, longitude: lon };
-      } catch (e) {
-        console.warn("Error processing GPS coordinates:", e);
-      }
-    }
-  }
+// Plain numbers, fractions and values with units such as "f/2.8" or "50 mm"
+function parseNumber(text: string): number | undefined {
+  const match = text.replace(/^f\//i, '').match(/^(-?\d+(?:\.\d+)?)(?:\s*\/\s*(\d+(?:\.\d+)?))?/);
+  if (!match) return undefined;
+  const value = match[2] !== undefined ? parseFloat(match[1]) / parseFloat(match[2]) : parseFloat(match[1]);
+  return isFinite(value) ? value : undefined;
+}
 
-  // 7. Check for array-style coordinates
-  if (tags.location?.coordinates || tags.coordinates) {
-    const coords = tags.location?.coordinates || tags.coordinates;
-    if (Array.isArray(coords)) {
-      const lon = parseFloat(coords[0]);
-      const lat = parseFloat(coords[1]);
-      if (isValidCoordinate(lat, lon)) return { latitude: lat, longitude: lon };
-    }
+// ExposureTime, or the APEX ShutterSpeedValue (Tv = -log2 t) converted to seconds
+function extractExposureTime(tags: RawTags): SourcedValue<string> | undefined {
+  const exposure = readPositiveNumber(tags, EXPOSURE_TAGS);
+  if (exposure) {
+    const value = exposure.raw.includes('/') ? exposure.raw : formatExposureTime(exposure.value);
+    return { ...exposure, value };
   }
 
-  return undefined;
+  const apex = getTagNumber(tags, 'exif.ShutterSpeedValue');
+  if (apex === undefined) return undefined;
+  return {
+    value: formatExposureTime(Math.pow(2, -apex)),
+    source: 'exif.ShutterSpeedValue',
+    raw: getTagDescription(tags, 'exif.ShutterSpeedValue') ?? String(apex),
+    confidence: 'medium',
+  };
 }
 
-function isValidCoordinate(latitude: number, longitude: number): boolean {
-  if (isNaN(latitude) || isNaN(longitude)) return false;
-  if (latitude < -90 || latitude > 90) return false;
-  if (longitude < -180 || longitude > 180) return false;
-  
-  // Allow 0,0 only if there's explicit GPS tags
-  if (latitude === 0 && longitude === 0) {
-    return tags?.GPSLatitude !== undefined && tags?.GPSLongitude !== undefined;
-  }
-  
-  return true;
+function formatExposureTime(seconds: number): string {
+  return seconds < 1 ? `1/${Math.round(1 / seconds)}` : String(Number(seconds.toFixed(1)));
 }
 
-function processGpsValue(gpsData: any): number {
-  if (!gpsData) return 0;
-  
-  if (gpsData.value !== undefined) {
-    if (Array.isArray(gpsData.value)) return processCoordinateArray(gpsData.value);
-    if (typeof gpsData.value === 'number') return gpsData.value;
-    if (typeof gpsData.value === 'string') return convertCoordinates(gpsData.value);
-  }
-  
-  if (Array.isArray(gpsData)) return processCoordinateArray(gpsData);
-  if (typeof gpsData === 'number') return gpsData;
-  if (typeof gpsData === 'string') return convertCoordinates(gpsData);
-  
-  return 0;
+// FNumber, or the APEX ApertureValue (Av = 2·log2 N)
+function extractFNumber(tags: RawTags): SourcedValue<number> | undefined {
+  const fNumber = readPositiveNumber(tags, F_NUMBER_TAGS);
+  if (fNumber) return fNumber;
+
+  const apex = getTagNumber(tags, 'exif.ApertureValue');
+  if (apex === undefined) return undefined;
+  return {
+    value: Number(Math.pow(2, apex / 2).toFixed(1)),
+    source: 'exif.ApertureValue',
+    raw: getTagDescription(tags, 'exif.ApertureValue') ?? String(apex),
+    confidence: 'medium',
+  };
 }
 
-function getGpsCoordinate(obj: any, possibleKeys: string[]): string | number | any[] | undefined {
-  if (!obj) return undefined;
-  
-  for (const key of possibleKeys) {
-    if (obj[key]?.description) return obj[key].description;
-    if (obj[key]?.value !== undefined) return obj[key].value;
-    if (Array.isArray(obj[key]) || typeof obj[key] === 'number' || typeof obj[key] === 'string') {
-      return obj[key];
+// The description is a name such as "top-left", so the number comes from the value
+function extractOrientation(tags: RawTags): SourcedValue<number> | undefined {
+  for (const [source, confidence] of ORIENTATION_TAGS) {
+    const value = getTagNumber(tags, source) ?? parseNumber(getTagDescription(tags, source) ?? '');
+    if (value !== undefined && Number.isInteger(value) && value >= 1 && value <= 8) {
+      return { value, source, raw: getTagDescription(tags, source) ?? String(value), confidence };
     }
   }
-  
   return undefined;
 }
 
-function getGpsRef(obj: any, possibleKeys: string[]): string | undefined {
-  if (!obj) return undefined;
-  
-  for (const key of possibleKeys) {
-    if (obj[key]?.description) return obj[key].description;
-    if (typeof obj[key] === 'string') return obj[key];
-    if (obj[key]?.value !== undefined) return obj[key].value;
+function extractResolution(tags: RawTags): SourcedValue<Resolution> | undefined {
+  for (const source of RESOLUTION_SOURCES) {
+    const x = getTagNumber(tags, source.x);
+    const y = getTagNumber(tags, source.y);
+    if (!x || !y) continue;
+
+    const unitValue = getTagNumber(tags, source.unit);
+    const unit = unitValue === undefined ? source.defaultUnit : source.units[unitValue];
+    if (!unit) continue;
+
+    const unitRaw = getTagDescription(tags, source.unit);
+    return {
+      value: { x, y, unit },
+      source: source.x,
+      raw: `${getTagDescription(tags, source.x)} × ${getTagDescription(tags, source.y)}${unitRaw ? ` ${unitRaw}` : ''}`,
+      confidence: source.confidence,
+    };
   }
-  
   return undefined;
 }
 
-function processCoordinateArray(coordArray: any[]): number {
-  if (!coordArray?.length) return 0;
-  
-  const numericArray = coordArray.map(item => {
-    if (typeof item === 'number') return item;
-    if (typeof item === 'string') return parseFloat(item);
-    if (item?.value !== undefined) return parseFloat(item.value);
-    return 0;
-  });
-  
-  if (numericArray.length >= 3) {
-    return numericArray[0] + (numericArray[1] / 60) + (numericArray[2] / 3600);
-  }
-  if (numericArray.length === 2) {
-    return numericArray[0] + (numericArray[1] / 60);
+function extractDimensions(tags: RawTags): SourcedValue<PixelDimensions> | undefined {
+  for (const [widthPath, heightPath, confidence] of DIMENSION_SOURCES) {
+    const width = getTagNumber(tags, widthPath);
+    const height = getTagNumber(tags, heightPath);
+    if (width && height && width > 0 && height > 0) {
+      return { value: { width, height }, source: widthPath, raw: `${width} × ${height}`, confidence };
+    }
   }
-  return numericArray[0];
+  return undefined;
 }
 
-function convertCoordinates(coordStr: string): number {
-  if (!coordStr) return 0;
-  
-  // Try simple number first
-  if (!isNaN(parseFloat(coordStr))) return parseFloat(coordStr);
-  
-  // Check bracket format [lat, lon]
-  const bracketMatch = coordStr.match(/\[?\s*(-?\d+\.\d+)\s*,\s*(-?\d+\.\d+)\s*\]?/);
-  if (bracketMatch) return parseFloat(bracketMatch[1]);
-  
-  // Check comma decimal format (e.g., "52,5163")
-  const commaMatch = coordStr.match(/^(-?\d+),(\d+)$/);
-  if (commaMatch) return parseFloat(commaMatch[1] + "." + commaMatch[2]);
-  
-  // Standard DMS formats
-  const dmsFormats = [
-    /(\d+(?:\.\d+)?)°\s*(\d+(?:\.\d+)?)['′]\s*(\d+(?:\.\d+)?)["″]/,
-    /(\d+(?:\.\d+)?)\s*deg\s*(\d+(?:\.\d+)?)['′]\s*(\d+(?:\.\d+)?)["″]/,
-    /(\d+)\s*(\d+)\s*(\d+(?:\.\d+)?)/
-  ];
-  
-  for (const format of dmsFormats) {
-    const match = coordStr.match(format);
-    if (match) {
-      const degrees = parseFloat(match[1]);
-      const minutes = parseFloat(match[2]);
-      const seconds = match[3] ? parseFloat(match[3]) : 0;
-      return degrees + (minutes / 60) + (seconds / 3600);
+// ExifReader's signed position from the GPS IFD, then the XMP copy
+function extractGps(tags: RawTags): SourcedValue<GpsPosition> | undefined {
+  let position: SourcedValue<{ latitude: number; longitude: number }> | undefined;
+
+  const latitude = getTagNumber(tags, 'gps.Latitude');
+  const longitude = getTagNumber(tags, 'gps.Longitude');
+  if (latitude !== undefined && longitude !== undefined && isValidCoordinate(latitude, longitude)) {
+    const rawLatitude = getTagDescription(tags, 'exif.GPSLatitude');
+    const rawLongitude = getTagDescription(tags, 'exif.GPSLongitude');
+    const withRef = (raw: string, refPath: string) => [raw, readGpsRef(tags, refPath)].filter(Boolean).join(' ');
+    position = {
+      value: { latitude, longitude },
+      source: 'gps.Latitude',
+      raw:
+        rawLatitude && rawLongitude
+          ? `${withRef(rawLatitude, 'exif.GPSLatitudeRef')}, ${withRef(rawLongitude, 'exif.GPSLongitudeRef')}`
+          : `${latitude}, ${longitude}`,
+      confidence: 'high',
+    };
+  } else {
+    const rawLatitude = getTagDescription(tags, 'xmp.GPSLatitude');
+    const rawLongitude = getTagDescription(tags, 'xmp.GPSLongitude');
+    const xmpLatitude = rawLatitude && parseXmpCoordinate(rawLatitude);
+    const xmpLongitude = rawLongitude && parseXmpCoordinate(rawLongitude);
+    if (typeof xmpLatitude === 'number' && typeof xmpLongitude === 'number' && isValidCoordinate(xmpLatitude, xmpLongitude)) {
+      position = {
+        value: { latitude: xmpLatitude, longitude: xmpLongitude },
+        source: 'xmp.GPSLatitude',
+        raw: `${rawLatitude}, ${rawLongitude}`,
+        confidence: 'medium',
+      };
     }
   }
-  
-  // Fallback to splitting any numbers
-  const numbers = coordStr.split(/[^\d.-]+/).filter(Boolean);
-  if (numbers.length >= 1) {
-    return parseFloat(numbers[0]);
-  }
-  
-  return 0;
-}
 
-function extractExposureTime(tags: any): string | undefined {
-  const exposureValue = findValue(tags, [
-    'ExposureTime', 'ShutterSpeedValue', 'Exposure', 'ShutterSpeed',
-    'ExpTime', 'Shutter', 'ExposureValue'
-  ]);
-  
-  if (!exposureValue) return undefined;
-  
-  if (typeof exposureValue === 'string' && exposureValue.includes('/')) {
-    return exposureValue;
-  }
-  
-  const value = parseFloat(exposureValue);
-  if (!isNaN(value) && value > 0 && value < 1) {
-    return `1/${Math.round(1 / value)}`;
-  }
-  
-  return exposureValue;
+  if (!position) return undefined;
+  return {
+    ...position,
+    value: { ...position.value, ...extractGpsDetails(tags) },
+    // 0,0 is what many devices write without a fix
+    confidence: position.value.latitude === 0 && position.value.longitude === 0 ? 'low' : position.confidence,
+  };
 }
 
-function extractFNumber(tags: any): number | undefined {
-  const fNumberStr = findValue(tags, [
-    'FNumber', 'ApertureValue', 'Aperture', 'F-Stop', 
-    'Fnumber', 'Aperture Value', 'FNumber Value', 'F-number'
-  ]);
-  
-  if (!fNumberStr) return undefined;
-  
-  const match = String(fNumberStr).match(/f\/(\d+\.?\d*)|(\d+\.?\d*)/);
-  if (match) return parseFloat(match[1] || match[2]);
-  
-  const value = parseFloat(String(fNumberStr));
-  return isNaN(value) ? undefined : value;
+// XMP writes coordinates as "DDD,MM.mmk" or "DDD,MM,SSk" with k one of N, S, E, W
+function parseXmpCoordinate(text: string): number | undefined {
+  const match = text.trim().match(/^(\d+)(?:,(\d+(?:\.\d+)?))?(?:,(\d+(?:\.\d+)?))?\s*([NSEW])$/i);
+  if (!match) return parseNumber(text);
+  const degrees = +match[1] + (match[2] ? +match[2] / 60 : 0) + (match[3] ? +match[3] / 3600 : 0);
+  return /[SW]/i.test(match[4]) ? -degrees : degrees;
 }
 
-function extractISO(tags: any): number | undefined {
-  const isoStr = findValue(tags, [
-    'ISOSpeedRatings', 'ISO', 'ISOSpeed', 'BaseISO',
-    'ISO Value', 'ISOValue', 'ISO Speed', 'SensitivityType'
-  ]);
+// Altitude, heading, speed and accuracy from the GPS IFD
+function extractGpsDetails(tags: RawTags): Omit<GpsPosition, 'latitude' | 'longitude'> {
+  const details: Omit<GpsPosition, 'latitude' | 'longitude'> = {};
+
+  const altitude = getTagNumber(tags, 'exif.GPSAltitude');
+  if (altitude !== undefined) {
+    const below = getTagNumber(tags, 'exif.GPSAltitudeRef') === 1;
+    details.altitude = below ? -altitude : altitude;
+    details.altitudeRef = below ? 'below' : 'above';
+  }
 
-  if (!isoStr) return undefined;
+  const direction = getTagNumber(tags, 'exif.GPSImgDirection');
+  if (direction !== undefined && direction >= 0 && direction <= 360) {
+    const ref = readGpsRef(tags, 'exif.GPSImgDirectionRef');
+    details.direction = direction % 360;
+    if (ref === 'T' || ref === 'M') details.directionRef = ref === 'T' ? 'true' : 'magnetic';
+  }
 
-  const match = String(isoStr).match(/(\d+)/);
-  if (match) return parseInt(match[1]);
+  const speed = getTagNumber(tags, 'exif.GPSSpeed');
+  if (speed !== undefined) {
+    details.speed = speed * (SPEED_UNITS_KMH[readGpsRef(tags, 'exif.GPSSpeedRef') ?? 'K'] ?? 1);
+  }
 
-  const value = parseInt(String(isoStr));
-  return isNaN(value) ? undefined : value;
-}
+  const horizontalError = getTagNumber(tags, 'exif.GPSHPositioningError');
+  if (horizontalError !== undefined && horizontalError > 0) details.horizontalError = horizontalError;
 
-function extractFocalLength(tags: any): number | undefined {
-  const focalLengthStr = findValue(tags, [
-    'FocalLength', 'Focal', 'FocalLengthIn35mmFilm',
-    'FocalLength35mm', 'Focal Length', 'Focal Length In 35mm Format'
-  ]);
-  
-  if (!focalLengthStr) return undefined;
-  
-  const match = String(focalLengthStr).match(/(\d+\.?\d*)\s*mm|(\d+\.?\d*)/);
-  if (match) return parseFloat(match[1] || match[2]);
-  
-  const value = parseFloat(String(focalLengthStr));
-  return isNaN(value) ? undefined : value;
+  return details;
 }
 
-function extractOrientation(tags: any): number | undefined {
-  const orientationStr = findValue(tags, ['Orientation', 'ImageOrientation', 'Image Orientation']);
-  
-  if (!orientationStr) return undefined;
-  
-  const match = String(orientationStr).match(/(\d+)/);
-  if (match) return parseInt(match[1]);
-  
-  const value = parseInt(String(orientationStr));
-  return isNaN(value) ? undefined : value;
+// Single-letter GPS reference tags such as "T"/"M" or "K"/"M"/"N"
+function readGpsRef(tags: RawTags, path: string): string | undefined {
+  const value = (getTagValue(tags, path) as { value?: unknown } | undefined)?.value;
+  const ref = Array.isArray(value) ? value[0] : value;
+  return typeof ref === 'string' ? ref.trim().toUpperCase() || undefined : undefined;
 }
 
-function extractResolution(tags: any): string | undefined {
-  const xRes = findValue(tags, ['XResolution', 'ImageWidth', 'ExifImageWidth', 'Width']);
-  const yRes = findValue(tags, ['YResolution', 'ImageHeight', 'ExifImageHeight', 'Height']);
-  
-  if (xRes && yRes) {
-    const xMatch = String(xRes).match(/(\d+)/);
-    const yMatch = String(yRes).match(/(\d+)/);
-    
-    if (xMatch && yMatch) return `${xMatch[1]} x ${yMatch[1]}`;
-    
-    const x = parseInt(String(xRes));
-    const y = parseInt(String(yRes));
-    
-    if (!isNaN(x) && !isNaN(y)) return `${x} x ${y}`;
-  }
-  
-  return undefined;
+function isValidCoordinate(latitude: number, longitude: number): boolean {
+  return isFinite(latitude) && isFinite(longitude) && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
 }
@@ -0,0 +1,261 @@
+import { UploadedImage } from '../types';
+import { formatCaptureTime, getCaptureTimestamp } from './dateUtils';
+import { describeSource, formatResolution } from './exifUtils';
+import { GPS_SOURCE_LABELS, getGpsSource } from './editUtils';
+import { getMimeType } from './formatUtils';
+
+export type ExportFormat = 'csv' | 'tsv' | 'geojson' | 'kml' | 'gpx';
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  getValue: (image: UploadedImage) => string | number | undefined;
+}
+
+export interface ExportResult {
+  content: string;
+  mimeType: string;
+  fileName: string;
+  exported: number;
+  // File names left out because they have no GPS position
+  skipped: string[];
+}
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; geo: boolean }[] = [
+  { format: 'csv', label: 'CSV', geo: false },
+  { format: 'tsv', label: 'TSV', geo: false },
+  { format: 'geojson', label: 'GeoJSON', geo: true },
+  { format: 'kml', label: 'KML', geo: true },
+  { format: 'gpx', label: 'GPX', geo: true },
+];
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'fileName', label: 'File name', getValue: (image) => image.metadata.fileName },
+  { key: 'dateTime', label: 'Date taken', getValue: (image) => image.metadata.dateTime },
+  { key: 'captureTime', label: 'Capture time (ISO)', getValue: (image) => formatCaptureTime(image.metadata) || undefined },
+  { key: 'utcOffset', label: 'UTC offset', getValue: (image) => image.metadata.capture?.offset },
+  { key: 'captureSource', label: 'Capture time source', getValue: (image) => image.metadata.capture?.source },
+  {
+    key: 'clockOffsetSeconds',
+    label: 'Camera vs GPS clock (s)',
+    getValue: (image) => image.metadata.capture?.clockOffsetSeconds,
+  },
+  { key: 'make', label: 'Make', getValue: (image) => image.metadata.make },
+  { key: 'model', label: 'Model', getValue: (image) => image.metadata.model },
+  { key: 'lens', label: 'Lens', getValue: (image) => image.metadata.lens },
+  { key: 'software', label: 'Software', getValue: (image) => image.metadata.software },
+  { key: 'exposure', label: 'Exposure', getValue: (image) => image.metadata.exposure },
+  { key: 'fNumber', label: 'F-number', getValue: (image) => image.metadata.fNumber },
+  { key: 'iso', label: 'ISO', getValue: (image) => image.metadata.iso },
+  { key: 'focalLength', label: 'Focal length (mm)', getValue: (image) => image.metadata.focalLength },
+  { key: 'focalLength35mm', label: 'Focal length, 35mm equivalent (mm)', getValue: (image) => image.metadata.focalLength35mm },
+  { key: 'whiteBalance', label: 'White balance', getValue: (image) => image.metadata.whiteBalance },
+  { key: 'flash', label: 'Flash', getValue: (image) => image.metadata.flash },
+  { key: 'latitude', label: 'Latitude', getValue: (image) => image.metadata.gps?.latitude },
+  { key: 'longitude', label: 'Longitude', getValue: (image) => image.metadata.gps?.longitude },
+  { key: 'altitude', label: 'Altitude (m)', getValue: (image) => image.metadata.gps?.altitude },
+  { key: 'direction', label: 'Camera heading (°)', getValue: (image) => image.metadata.gps?.direction },
+  { key: 'directionRef', label: 'Heading reference', getValue: (image) => image.metadata.gps?.directionRef },
+  { key: 'speed', label: 'Speed (km/h)', getValue: (image) => image.metadata.gps?.speed },
+  { key: 'horizontalError', label: 'Position error (m)', getValue: (image) => image.metadata.gps?.horizontalError },
+  {
+    key: 'gpsSource',
+    label: 'GPS source',
+    getValue: (image) => {
+      const source = getGpsSource(image.metadata);
+      return source && GPS_SOURCE_LABELS[source];
+    },
+  },
+  { key: 'city', label: 'Nearest place', getValue: (image) => image.place?.city },
+  { key: 'region', label: 'Region', getValue: (image) => image.place?.region },
+  { key: 'country', label: 'Country', getValue: (image) => image.place?.country },
+  {
+    key: 'placeDistanceKm',
+    label: 'Distance to place (km)',
+    getValue: (image) => image.place && Number(image.place.distanceKm.toFixed(1)),
+  },
+  { key: 'fileSize', label: 'File size (bytes)', getValue: (image) => image.file.size },
+  { key: 'fileType', label: 'File type', getValue: getMimeType },
+  { key: 'width', label: 'Width (px)', getValue: (image) => image.metadata.dimensions?.width },
+  { key: 'height', label: 'Height (px)', getValue: (image) => image.metadata.dimensions?.height },
+  {
+    key: 'resolution',
+    label: 'Print resolution',
+    getValue: (image) => image.metadata.resolution && formatResolution(image.metadata.resolution),
+  },
+  {
+    key: 'provenance',
+    label: 'Field sources',
+    getValue: (image) =>
+      Object.entries(image.metadata.provenance ?? {})
+        .map(([field, sourced]) => `${field}: ${describeSource(sourced)}`)
+        .join('; ') || undefined,
+  },
+];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  gpx: 'application/gpx+xml',
+};
+
+export const exportImages = (
+  images: UploadedImage[],
+  format: ExportFormat,
+  columns: ExportColumn[] = EXPORT_COLUMNS,
+): ExportResult => {
+  const isGeo = EXPORT_FORMATS.find((entry) => entry.format === format)?.geo ?? false;
+  const included = isGeo ? images.filter((image) => image.metadata.gps) : images;
+  const skipped = isGeo
+    ? images.filter((image) => !image.metadata.gps).map((image) => image.metadata.fileName)
+    : [];
+
+  let content: string;
+  switch (format) {
+    case 'csv':
+      content = toDelimited(included, columns, ',');
+      break;
+    case 'tsv':
+      content = toDelimited(included, columns, '\t');
+      break;
+    case 'geojson':
+      content = toGeoJson(included, columns);
+      break;
+    case 'kml':
+      content = toKml(included, columns);
+      break;
+    case 'gpx':
+      content = toGpx(included);
+      break;
+  }
+
+  return {
+    content,
+    mimeType: MIME_TYPES[format],
+    fileName: `image-metadata.${format}`,
+    exported: included.length,
+    skipped,
+  };
+};
+
+function toDelimited(images: UploadedImage[], columns: ExportColumn[], delimiter: string): string {
+  const escape = (value: string | number | undefined): string => {
+    let text = value === undefined ? '' : String(value);
+    // Spreadsheets run text cells starting with these as formulas; file names
+    // and tag strings come from untrusted images. Numbers are left as they are.
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    if (delimiter === '\t') return text.replace(/[\t\r\n]+/g, ' ');
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const header = columns.map((column) => escape(column.label)).join(delimiter);
+  const rows = images.map((image) =>
+    columns.map((column) => escape(column.getValue(image))).join(delimiter),
+  );
+  return [header, ...rows].join('\r\n');
+}
+
+function toGeoJson(images: UploadedImage[], columns: ExportColumn[]): string {
+  return JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      features: images.map((image) => ({
+        type: 'Feature',
+        geometry: {
+          type: 'Point',
+          coordinates: [image.metadata.gps!.longitude, image.metadata.gps!.latitude],
+        },
+        properties: Object.fromEntries(
+          columns.map((column) => [column.key, column.getValue(image) ?? null]),
+        ),
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+function toKml(images: UploadedImage[], columns: ExportColumn[]): string {
+  const placemarks = images.map((image) => {
+    const { latitude, longitude } = image.metadata.gps!;
+    const when = formatCaptureTime(image.metadata);
+    const data = columns
+      .map((column) => {
+        const value = column.getValue(image);
+        return value === undefined
+          ? ''
+          : `\n        <Data name="${escapeXml(column.key)}"><value>${escapeXml(String(value))}</value></Data>`;
+      })
+      .join('');
+
+    return `    <Placemark>
+      <name>${escapeXml(image.metadata.fileName)}</name>${when ? `\n      <TimeStamp><when>${when}</when></TimeStamp>` : ''}
+      <ExtendedData>${data}
+      </ExtendedData>
+      <Point><coordinates>${longitude},${latitude}</coordinates></Point>
+    </Placemark>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Image Metadata Viewer export</name>
+${placemarks.join('\n')}
+  </Document>
+</kml>
+`;
+}
+
+// Waypoints for every image plus a track through the ones with a capture
+// time, both ordered chronologically
+function toGpx(images: UploadedImage[]): string {
+  const sorted = images
+    .map((image) => ({
+      image,
+      time: formatCaptureTime(image.metadata),
+      timestamp: getCaptureTimestamp(image.metadata),
+    }))
+    .sort((a, b) => {
+      if (a.timestamp === undefined) return b.timestamp === undefined ? 0 : 1;
+      if (b.timestamp === undefined) return -1;
+      return a.timestamp - b.timestamp;
+    });
+
+  const point = (tag: string, { image, time }: (typeof sorted)[number], indent: string) => {
+    const { latitude, longitude } = image.metadata.gps!;
+    return `${indent}<${tag} lat="${latitude}" lon="${longitude}">${time ? `\n${indent}  <time>${time}</time>` : ''}
+${indent}  <name>${escapeXml(image.metadata.fileName)}</name>
+${indent}  <src>${GPS_SOURCE_LABELS[getGpsSource(image.metadata)!]}</src>
+${indent}</${tag}>`;
+  };
+
+  const waypoints = sorted.map((entry) => point('wpt', entry, '  '));
+  const trackPoints = sorted.filter((entry) => entry.time).map((entry) => point('trkpt', entry, '      '));
+
+  const track = trackPoints.length
+    ? `
+  <trk>
+    <name>Photo trail</name>
+    <trkseg>
+${trackPoints.join('\n')}
+    </trkseg>
+  </trk>`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Image Metadata Viewer" xmlns="http://www.topografix.com/GPX/1/1">
+${waypoints.join('\n')}${track}
+</gpx>
+`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
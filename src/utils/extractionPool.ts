@@ -0,0 +1,178 @@
+import { ExtractionResult } from '../types';
+import { extractImageMetadata } from './exifUtils';
+
+export interface ExtractionRequest {
+  id: number;
+  file: File;
+}
+
+export interface ExtractionResponse {
+  id: number;
+  result: ExtractionResult;
+}
+
+export interface ExtractionProgress {
+  done: number;
+  total: number;
+  current?: string;
+  // Step after metadata extraction, e.g. building previews
+  stage?: string;
+}
+
+export interface ExtractedFile {
+  file: File;
+  result: ExtractionResult;
+}
+
+export interface ExtractionOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: ExtractionProgress) => void;
+}
+
+export interface ProcessingOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number) => void;
+}
+
+type Extractor = (file: File) => Promise<ExtractionResult>;
+
+const DEFAULT_CONCURRENCY = Math.max(
+  1,
+  Math.min(4, (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 2),
+);
+
+// Resolves with the files finished so far, in input order, once every file is
+// done or the signal aborts. Falls back to the main thread without workers.
+export const extractFiles = (
+  files: File[],
+  { concurrency = DEFAULT_CONCURRENCY, signal, onProgress }: ExtractionOptions = {},
+): Promise<ExtractedFile[]> =>
+  new Promise((resolve) => {
+    const results: (ExtractionResult | undefined)[] = new Array(files.length);
+    const active = new Map<number, string>();
+    const terminators: (() => void)[] = [];
+    let next = 0;
+    let done = 0;
+    let finished = false;
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      terminators.forEach((terminate) => terminate());
+      signal?.removeEventListener('abort', finish);
+      resolve(
+        files.flatMap((file, index) => {
+          const result = results[index];
+          return result ? [{ file, result }] : [];
+        }),
+      );
+    };
+
+    const report = () =>
+      onProgress?.({ done, total: files.length, current: active.values().next().value });
+
+    const runSlot = async (extract: Extractor) => {
+      while (!finished && next < files.length) {
+        const index = next++;
+        active.set(index, files[index].name);
+        report();
+        const result = await extract(files[index]);
+        if (finished) return;
+        results[index] = result;
+        active.delete(index);
+        done++;
+        report();
+      }
+      if (done === files.length) finish();
+    };
+
+    if (signal?.aborted || files.length === 0) {
+      finish();
+      return;
+    }
+    signal?.addEventListener('abort', finish);
+
+    const slots = Math.min(concurrency, files.length);
+    for (let i = 0; i < slots; i++) {
+      const worker = createWorkerExtractor();
+      if (worker) terminators.push(worker.terminate);
+      runSlot(worker?.extract ?? extractImageMetadata);
+    }
+  });
+
+// Runs `task` over the items with at most `concurrency` in flight. Stops
+// starting new items once the signal aborts and resolves with the finished
+// ones, in input order. An item whose task throws is logged and left out.
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  task: (item: T) => Promise<R>,
+  { concurrency = DEFAULT_CONCURRENCY, signal, onProgress }: ProcessingOptions = {},
+): Promise<R[]> => {
+  const results: { value: R }[] = new Array(items.length);
+  let next = 0;
+  let done = 0;
+
+  const runSlot = async () => {
+    while (!signal?.aborted && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { value: await task(items[index]) };
+      } catch (error) {
+        console.error('Error processing item:', error);
+      }
+      onProgress?.(++done);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runSlot));
+  return results.filter(Boolean).map(({ value }) => value);
+};
+
+function createWorkerExtractor(): { extract: Extractor; terminate: () => void } | undefined {
+  if (typeof Worker === 'undefined') return undefined;
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('../workers/extractionWorker.ts', import.meta.url), {
+      type: 'module',
+    });
+  } catch {
+    return undefined;
+  }
+
+  // A worker that fails to load or crashes never answers again, so the file in
+  // flight and every later one in this slot run on the main thread instead
+  let dead = false;
+  let pending:
+    | { id: number; file: File; resolve: (result: ExtractionResult | Promise<ExtractionResult>) => void }
+    | undefined;
+  worker.onmessage = (e: MessageEvent<ExtractionResponse>) => {
+    if (pending?.id !== e.data.id) return;
+    const { resolve } = pending;
+    pending = undefined;
+    resolve(e.data.result);
+  };
+  worker.onerror = (e) => {
+    e.preventDefault();
+    dead = true;
+    worker.terminate();
+    if (!pending) return;
+    const { file, resolve } = pending;
+    pending = undefined;
+    resolve(extractImageMetadata(file));
+  };
+
+  let nextId = 0;
+  const extract: Extractor = (file) => {
+    if (dead) return extractImageMetadata(file);
+    return new Promise((resolve) => {
+      const id = nextId++;
+      pending = { id, file, resolve };
+      worker.postMessage({ id, file } satisfies ExtractionRequest);
+    });
+  };
+
+  return { extract, terminate: () => worker.terminate() };
+}
@@ -0,0 +1,205 @@
+import { UploadedImage } from '../types';
+import { exifDateToIso, getCaptureTimestamp } from './dateUtils';
+import { flattenTags } from './tagUtils';
+
+export type GpsFilter = 'any' | 'with' | 'without';
+
+export interface GalleryFilter {
+  gps: GpsFilter;
+  cameras: string[];
+  lenses: string[];
+  places: string[];
+  isoMin?: number;
+  isoMax?: number;
+  focalMin?: number;
+  focalMax?: number;
+  fNumberMin?: number;
+  fNumberMax?: number;
+  // Shutter speed in seconds
+  exposureMin?: number;
+  exposureMax?: number;
+  // Inclusive calendar dates as YYYY-MM-DD
+  dateFrom?: string;
+  dateTo?: string;
+  // Hour of the capture time, 0-23
+  hour?: number;
+  query: string;
+}
+
+export type SortKey = 'upload' | 'date' | 'fileName' | 'fileSize' | 'iso';
+
+export interface GallerySort {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export const DEFAULT_GALLERY_FILTER: GalleryFilter = {
+  gps: 'any',
+  cameras: [],
+  lenses: [],
+  places: [],
+  query: '',
+};
+
+export const DEFAULT_GALLERY_SORT: GallerySort = { key: 'upload', direction: 'asc' };
+
+export const SORT_OPTIONS: { key: SortKey; label: string }[] = [
+  { key: 'upload', label: 'Upload order' },
+  { key: 'date', label: 'Capture date' },
+  { key: 'fileName', label: 'File name' },
+  { key: 'fileSize', label: 'File size' },
+  { key: 'iso', label: 'ISO' },
+];
+
+export const UNKNOWN_FACET = 'Unknown';
+
+const searchTextCache = new WeakMap<UploadedImage, string>();
+
+export const getCameraLabel = (image: UploadedImage): string =>
+  image.metadata.model || image.metadata.make || UNKNOWN_FACET;
+
+export const getLensLabel = (image: UploadedImage): string =>
+  image.metadata.lens || UNKNOWN_FACET;
+
+// "1/250", "0.5" or "2s" as seconds
+export const parseExposureSeconds = (exposure?: string): number | undefined => {
+  const match = exposure?.trim().match(/^(\d+(?:\.\d+)?)\s*(?:\/\s*(\d+(?:\.\d+)?))?/);
+  if (!match) return undefined;
+  const seconds = parseFloat(match[1]) / (match[2] ? parseFloat(match[2]) : 1);
+  return isFinite(seconds) && seconds > 0 ? seconds : undefined;
+};
+
+export const getCaptureHour = (image: UploadedImage): number | undefined => {
+  const hour = exifDateToIso(image.metadata.dateTime).slice(11, 13);
+  return hour ? parseInt(hour, 10) : undefined;
+};
+
+export const formatHour = (hour: number): string => {
+  const padded = String(hour).padStart(2, '0');
+  return `${padded}:00–${padded}:59`;
+};
+
+export const getPlaceLabel = (image: UploadedImage): string =>
+  image.place ? `${image.place.city}, ${image.place.country}` : UNKNOWN_FACET;
+
+export const getFacetValues = (
+  images: UploadedImage[],
+  getLabel: (image: UploadedImage) => string,
+): FacetValue[] => {
+  const counts = new Map<string, number>();
+  images.forEach((image) => {
+    const label = getLabel(image);
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+export const countActiveFilters = (filter: GalleryFilter): number =>
+  [
+    filter.gps !== 'any',
+    filter.cameras.length > 0,
+    filter.lenses.length > 0,
+    filter.places.length > 0,
+    filter.isoMin !== undefined || filter.isoMax !== undefined,
+    filter.focalMin !== undefined || filter.focalMax !== undefined,
+    filter.fNumberMin !== undefined || filter.fNumberMax !== undefined,
+    filter.exposureMin !== undefined || filter.exposureMax !== undefined,
+    filter.hour !== undefined,
+    !!filter.dateFrom || !!filter.dateTo,
+    !!filter.query.trim(),
+  ].filter(Boolean).length;
+
+export const matchesGalleryFilter = (image: UploadedImage, filter: GalleryFilter): boolean => {
+  const { metadata } = image;
+
+  if (filter.gps === 'with' && !metadata.gps) return false;
+  if (filter.gps === 'without' && metadata.gps) return false;
+  if (filter.cameras.length && !filter.cameras.includes(getCameraLabel(image))) return false;
+  if (filter.lenses.length && !filter.lenses.includes(getLensLabel(image))) return false;
+  if (filter.places.length && !filter.places.includes(getPlaceLabel(image))) return false;
+  if (!inRange(metadata.iso, filter.isoMin, filter.isoMax)) return false;
+  if (!inRange(metadata.focalLength, filter.focalMin, filter.focalMax)) return false;
+  if (!inRange(metadata.fNumber, filter.fNumberMin, filter.fNumberMax)) return false;
+  if (!inRange(parseExposureSeconds(metadata.exposure), filter.exposureMin, filter.exposureMax)) return false;
+  if (filter.hour !== undefined && getCaptureHour(image) !== filter.hour) return false;
+
+  if (filter.dateFrom || filter.dateTo) {
+    const date = exifDateToIso(metadata.dateTime).slice(0, 10);
+    if (!date) return false;
+    if (filter.dateFrom && date < filter.dateFrom) return false;
+    if (filter.dateTo && date > filter.dateTo) return false;
+  }
+
+  const query = filter.query.trim().toLowerCase();
+  if (query && !getSearchText(image).includes(query)) return false;
+
+  return true;
+};
+
+export const applyGalleryFilter = (
+  images: UploadedImage[],
+  filter: GalleryFilter,
+  sort: GallerySort,
+): UploadedImage[] => sortImages(images.filter((image) => matchesGalleryFilter(image, filter)), sort);
+
+export const sortImages = (images: UploadedImage[], sort: GallerySort): UploadedImage[] => {
+  if (sort.key === 'upload') {
+    return sort.direction === 'asc' ? images : [...images].reverse();
+  }
+
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  const getKey = (image: UploadedImage): string | number | undefined => {
+    switch (sort.key) {
+      case 'date':
+        return getCaptureTimestamp(image.metadata);
+      case 'fileName':
+        return image.metadata.fileName.toLowerCase();
+      case 'fileSize':
+        return image.file.size;
+      case 'iso':
+        return image.metadata.iso;
+    }
+  };
+
+  // Images missing the sort value always go last
+  return [...images].sort((a, b) => {
+    const keyA = getKey(a);
+    const keyB = getKey(b);
+    if (keyA === undefined) return keyB === undefined ? 0 : 1;
+    if (keyB === undefined) return -1;
+    if (keyA < keyB) return -direction;
+    if (keyA > keyB) return direction;
+    return 0;
+  });
+};
+
+function inRange(value: number | undefined, min?: number, max?: number): boolean {
+  if (min === undefined && max === undefined) return true;
+  if (value === undefined) return false;
+  if (min !== undefined && value < min) return false;
+  if (max !== undefined && value > max) return false;
+  return true;
+}
+
+// File name plus every tag name and description, built once per image object
+function getSearchText(image: UploadedImage): string {
+  let text = searchTextCache.get(image);
+  if (text === undefined) {
+    const tagText = flattenTags(image.tags)
+      .map((entry) => `${entry.name} ${entry.description}`)
+      .join('\n');
+    const fieldText = [...Object.values(image.metadata), ...Object.values(image.place ?? {})]
+      .filter((value) => typeof value === 'string' || typeof value === 'number')
+      .join('\n');
+    text = `${fieldText}\n${tagText}`.toLowerCase();
+    searchTextCache.set(image, text);
+  }
+  return text;
+}
@@ -0,0 +1,342 @@
+import { UploadedImage } from '../types';
+import { loadBitmap } from './imageHashUtils';
+import { getSegmentKind, isJpeg, parseJpeg, readPhotoshopResources, JpegSegment } from './jpegUtils';
+import { getTagDescription } from './tagUtils';
+
+export interface QuantizationTable {
+  id: number;
+  precision: 8 | 16;
+  // 64 coefficients in natural (row-major) order
+  values: number[];
+}
+
+export interface QualityEstimate {
+  quality: number;
+  // True when the tables are exactly the IJG standard tables at that quality
+  exact: boolean;
+  // Mean absolute difference from the scaled standard tables
+  deviation: number;
+}
+
+export interface QuantizationSignature {
+  label: string;
+  detail: string;
+}
+
+export interface QuantizationAnalysis {
+  tables: QuantizationTable[];
+  estimate?: QualityEstimate;
+  subsampling?: string;
+  progressive: boolean;
+  hasAdobeSegment: boolean;
+  hasPhotoshopResources: boolean;
+  // Image resources that only Photoshop writes, unlike the IPTC block itself
+  hasPhotoshopOnlyResources: boolean;
+  signatures: QuantizationSignature[];
+}
+
+export interface ErrorLevelResult {
+  url: string;
+  // Analysed size, always the full image
+  width: number;
+  height: number;
+  // The overlay image is smaller than the analysed size
+  downscaled: boolean;
+  // Mean per-channel difference before amplification (0-255)
+  meanError: number;
+}
+
+export interface MetadataClue {
+  label: string;
+  value: string;
+  suspicious: boolean;
+}
+
+export const DEFAULT_ELA_QUALITY = 90;
+export const DEFAULT_ELA_SCALE = 20;
+
+// Recompressing at a different size moves the 8×8 block grid, so ELA always
+// runs at full resolution, one tile at a time. Tiles start on multiples of 16
+// to keep the grid of 4:2:0 chroma blocks in place too.
+const ELA_TILE_SIZE = 1024;
+// Only the finished overlay is scaled down to this width for display
+const ELA_OUTPUT_MAX_WIDTH = 4096;
+
+// JPEG quality, grid and guides, global angle, document ID seed, slices and
+// version info. The IPTC block and its digest are written by most IPTC tools.
+const PHOTOSHOP_ONLY_RESOURCES = [0x0406, 0x0408, 0x040d, 0x0414, 0x041a, 0x0421];
+
+// JPEG Annex K tables, the base of every libjpeg-compatible encoder
+const STANDARD_LUMINANCE = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+const STANDARD_CHROMINANCE = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99,
+  ...Array(32).fill(99),
+];
+
+// Natural-order index of each coefficient as stored in a DQT segment
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+const DQT = 0xdb;
+const SOF_BASELINE = [0xc0, 0xc1];
+const SOF_PROGRESSIVE = 0xc2;
+
+// Qualities social networks and messengers typically re-encode uploads at
+const SOCIAL_MEDIA_QUALITY = { min: 70, max: 85 };
+
+export const scaleStandardTable = (table: number[], quality: number): number[] => {
+  const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+  return table.map((value) => Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))));
+};
+
+export const readQuantizationTables = (buffer: ArrayBuffer): QuantizationTable[] => {
+  const tables: QuantizationTable[] = [];
+
+  parseJpeg(buffer)
+    .segments.filter((segment) => segment.marker === DQT)
+    .forEach(({ data }) => {
+      let offset = 0;
+      while (offset < data.length) {
+        const precision = data[offset] >> 4 ? 16 : 8;
+        const id = data[offset] & 0x0f;
+        offset++;
+
+        const values = new Array<number>(64);
+        for (let i = 0; i < 64; i++) {
+          values[ZIGZAG[i]] = precision === 16 ? (data[offset] << 8) | data[offset + 1] : data[offset];
+          offset += precision / 8;
+        }
+        if (offset > data.length) break;
+
+        // A later DQT with the same id replaces the earlier one
+        const existing = tables.findIndex((table) => table.id === id);
+        if (existing >= 0) tables.splice(existing, 1);
+        tables.push({ id, precision, values });
+      }
+    });
+
+  return tables.sort((a, b) => a.id - b.id);
+};
+
+// Finds the IJG quality whose scaled standard tables best fit the file's
+// tables. Cameras and Photoshop use their own tables, so the estimate is
+// approximate for them.
+export const estimateJpegQuality = (tables: QuantizationTable[]): QualityEstimate | undefined => {
+  const luminance = tables.find((table) => table.id === 0);
+  if (!luminance) return undefined;
+  const chrominance = tables.find((table) => table.id === 1);
+
+  let best: QualityEstimate | undefined;
+  for (let quality = 1; quality <= 100; quality++) {
+    let difference = sumDifference(luminance.values, scaleStandardTable(STANDARD_LUMINANCE, quality));
+    let count = 64;
+    if (chrominance) {
+      difference += sumDifference(chrominance.values, scaleStandardTable(STANDARD_CHROMINANCE, quality));
+      count += 64;
+    }
+
+    const deviation = difference / count;
+    if (!best || deviation < best.deviation) best = { quality, exact: difference === 0, deviation };
+  }
+  return best;
+};
+
+export const analyzeQuantization = async (image: UploadedImage): Promise<QuantizationAnalysis | undefined> => {
+  const buffer = await image.file.arrayBuffer();
+  if (!isJpeg(new Uint8Array(buffer))) return undefined;
+
+  const { segments } = parseJpeg(buffer);
+  const tables = readQuantizationTables(buffer);
+  const frame = segments.find((segment) => SOF_BASELINE.includes(segment.marker) || segment.marker === SOF_PROGRESSIVE);
+  const kinds = segments.map(getSegmentKind);
+
+  const analysis: QuantizationAnalysis = {
+    tables,
+    estimate: estimateJpegQuality(tables),
+    subsampling: frame && readSubsampling(frame.data),
+    progressive: frame?.marker === SOF_PROGRESSIVE,
+    hasAdobeSegment: kinds.includes('adobe'),
+    hasPhotoshopResources: kinds.includes('iptc'),
+    hasPhotoshopOnlyResources: segments.some(hasPhotoshopOnlyResources),
+    signatures: [],
+  };
+  analysis.signatures = matchSignatures(analysis, image);
+  return analysis;
+};
+
+// Error level analysis: recompress at a known quality and amplify the
+// difference. Regions edited after the last save recompress differently
+// from the rest of the image and stand out.
+export const computeErrorLevel = async (source: string | Blob, quality: number, scale: number): Promise<ErrorLevelResult> => {
+  const bitmap = await loadBitmap(source);
+  const { width, height } = bitmap;
+  const outputScale = Math.min(1, ELA_OUTPUT_MAX_WIDTH / width);
+
+  const output = document.createElement('canvas');
+  output.width = Math.max(1, Math.round(width * outputScale));
+  output.height = Math.max(1, Math.round(height * outputScale));
+  const outputCtx = output.getContext('2d')!;
+
+  const tile = document.createElement('canvas');
+  const ctx = tile.getContext('2d', { willReadFrequently: true })!;
+  let total = 0;
+
+  try {
+    for (let y = 0; y < height; y += ELA_TILE_SIZE) {
+      for (let x = 0; x < width; x += ELA_TILE_SIZE) {
+        const tileWidth = Math.min(ELA_TILE_SIZE, width - x);
+        const tileHeight = Math.min(ELA_TILE_SIZE, height - y);
+        tile.width = tileWidth;
+        tile.height = tileHeight;
+        ctx.drawImage(bitmap, x, y, tileWidth, tileHeight, 0, 0, tileWidth, tileHeight);
+        const original = ctx.getImageData(0, 0, tileWidth, tileHeight).data;
+
+        const recompressed = await loadBitmap(await canvasToBlob(tile, 'image/jpeg', quality / 100));
+        ctx.drawImage(recompressed, 0, 0);
+        recompressed.close();
+        const difference = ctx.getImageData(0, 0, tileWidth, tileHeight);
+        const { data } = difference;
+
+        for (let i = 0; i < data.length; i += 4) {
+          for (let channel = 0; channel < 3; channel++) {
+            const error = Math.abs(original[i + channel] - data[i + channel]);
+            total += error;
+            data[i + channel] = Math.min(255, error * scale);
+          }
+          data[i + 3] = 255;
+        }
+        ctx.putImageData(difference, 0, 0);
+        outputCtx.drawImage(tile, x * outputScale, y * outputScale, tileWidth * outputScale, tileHeight * outputScale);
+      }
+    }
+  } finally {
+    bitmap.close();
+  }
+
+  return {
+    url: URL.createObjectURL(await canvasToBlob(output, 'image/png')),
+    width,
+    height,
+    downscaled: outputScale < 1,
+    meanError: total / (width * height * 3),
+  };
+};
+
+// Metadata left behind by editors, shown alongside the pixel evidence
+export const getMetadataClues = (image: UploadedImage): MetadataClue[] => {
+  const tag = (path: string) => getTagDescription(image.tags, path);
+  const clues: MetadataClue[] = [];
+  const add = (label: string, value: string | undefined, suspicious = false) => {
+    if (value) clues.push({ label, value, suspicious });
+  };
+
+  const software = tag('exif.Software');
+  add('Software', software, !!software && isEditorName(software));
+  add('Processing software', tag('exif.ProcessingSoftware'), true);
+  const creatorTool = tag('xmp.CreatorTool');
+  add('Creator tool', creatorTool, !!creatorTool && isEditorName(creatorTool));
+  add('Edit history', tag('xmp.History'), true);
+
+  const original = tag('exif.DateTimeOriginal');
+  const modified = tag('exif.DateTime');
+  add('Captured', original);
+  add('Last modified', modified, !!original && !!modified && original !== modified);
+
+  add('Camera', [tag('exif.Make'), tag('exif.Model')].filter(Boolean).join(' ') || undefined);
+  if (!image.tags?.exif) add('EXIF', 'None. Metadata may have been stripped by an editor or upload service', true);
+
+  return clues;
+};
+
+function matchSignatures(analysis: QuantizationAnalysis, image: UploadedImage): QuantizationSignature[] {
+  const { estimate } = analysis;
+  const signatures: QuantizationSignature[] = [];
+  const hasCamera = !!getTagDescription(image.tags, 'exif.Make');
+
+  if (estimate?.exact) {
+    signatures.push({
+      label: 'Standard libjpeg encoder',
+      detail: `Tables are the IJG standard tables at quality ${estimate.quality}, as written by browsers, GIMP, phone apps and most web services.`,
+    });
+    if (!hasCamera && estimate.quality >= SOCIAL_MEDIA_QUALITY.min && estimate.quality <= SOCIAL_MEDIA_QUALITY.max) {
+      signatures.push({
+        label: 'Social-media recompression',
+        detail: `Quality ${estimate.quality} standard tables with no camera metadata match how social networks and messengers re-encode uploads.`,
+      });
+    }
+    if (hasCamera) {
+      signatures.push({
+        label: 'Re-saved by software',
+        detail: 'The EXIF names a camera, but camera firmware rarely uses the standard tables. The image was probably re-encoded after capture.',
+      });
+    }
+  }
+
+  const namedPhotoshop = ['exif.Software', 'xmp.CreatorTool'].some((path) =>
+    /photoshop/i.test(getTagDescription(image.tags, path) ?? ''),
+  );
+  const isPhotoshop = analysis.hasPhotoshopOnlyResources || namedPhotoshop;
+  if (isPhotoshop) {
+    signatures.push({
+      label: 'Adobe Photoshop',
+      detail: `The file has ${
+        analysis.hasPhotoshopOnlyResources ? 'image resources only Photoshop writes' : 'software tags naming Photoshop'
+      }${estimate && !estimate.exact ? ' and non-standard tables, as written by Photoshop\'s own encoder' : ''}.`,
+    });
+  } else if (analysis.hasPhotoshopResources || analysis.hasAdobeSegment) {
+    signatures.push({
+      label: analysis.hasPhotoshopResources ? 'IPTC/Photoshop IRB present' : 'Adobe APP14 segment present',
+      detail: 'Written by Photoshop, but also by most IPTC and DAM tools, agency ingest software, image libraries and cameras with IPTC presets, so it does not identify an editor.',
+    });
+  }
+  if (!isPhotoshop && estimate && !estimate.exact && hasCamera) {
+    signatures.push({
+      label: 'Camera firmware',
+      detail: 'Custom quantization tables together with camera EXIF are typical of an unedited in-camera JPEG.',
+    });
+  }
+
+  return signatures;
+}
+
+function readSubsampling(frame: Uint8Array): string | undefined {
+  const components = frame[5];
+  if (components === 1) return 'Grayscale';
+  if (components !== 3 || frame.length < 6 + components * 3) return undefined;
+
+  const horizontal = frame[7] >> 4;
+  const vertical = frame[7] & 0x0f;
+  if (horizontal === 1 && vertical === 1) return '4:4:4';
+  if (horizontal === 2 && vertical === 1) return '4:2:2';
+  if (horizontal === 2 && vertical === 2) return '4:2:0';
+  if (horizontal === 1 && vertical === 2) return '4:4:0';
+  return `${horizontal}×${vertical}`;
+}
+
+function hasPhotoshopOnlyResources(segment: JpegSegment): boolean {
+  if (getSegmentKind(segment) !== 'iptc') return false;
+  try {
+    return readPhotoshopResources(segment).some(({ id }) => PHOTOSHOP_ONLY_RESOURCES.includes(id));
+  } catch {
+    return false;
+  }
+}
+
+function isEditorName(value: string): boolean {
+  return /photoshop|lightroom|gimp|affinity|pixelmator|snapseed|paint|picsart|facetune|canva/i.test(value);
+}
+
+function sumDifference(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + Math.abs(value - b[i]), 0);
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Canvas export failed'))), type, quality),
+  );
+}
@@ -0,0 +1,93 @@
+import { ImageFormat, UploadedImage } from '../types';
+
+export interface FormatInfo {
+  label: string;
+  mimeType: string;
+  raw: boolean;
+}
+
+export const IMAGE_FORMATS: Record<ImageFormat, FormatInfo> = {
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', raw: false },
+  png: { label: 'PNG', mimeType: 'image/png', raw: false },
+  gif: { label: 'GIF', mimeType: 'image/gif', raw: false },
+  bmp: { label: 'BMP', mimeType: 'image/bmp', raw: false },
+  webp: { label: 'WebP', mimeType: 'image/webp', raw: false },
+  heic: { label: 'HEIC', mimeType: 'image/heic', raw: false },
+  avif: { label: 'AVIF', mimeType: 'image/avif', raw: false },
+  tiff: { label: 'TIFF', mimeType: 'image/tiff', raw: false },
+  dng: { label: 'DNG', mimeType: 'image/x-adobe-dng', raw: true },
+  cr2: { label: 'Canon CR2', mimeType: 'image/x-canon-cr2', raw: true },
+  cr3: { label: 'Canon CR3', mimeType: 'image/x-canon-cr3', raw: true },
+  nef: { label: 'Nikon NEF', mimeType: 'image/x-nikon-nef', raw: true },
+  arw: { label: 'Sony ARW', mimeType: 'image/x-sony-arw', raw: true },
+  orf: { label: 'Olympus ORF', mimeType: 'image/x-olympus-orf', raw: true },
+  rw2: { label: 'Panasonic RW2', mimeType: 'image/x-panasonic-rw2', raw: true },
+  raf: { label: 'Fujifilm RAF', mimeType: 'image/x-fuji-raf', raw: true },
+};
+
+// Extensions for the file picker; RAW files usually arrive without a MIME type
+export const IMAGE_FILE_TYPES = [
+  'image/*',
+  '.heic', '.heif', '.avif', '.webp', '.tif', '.tiff',
+  '.dng', '.cr2', '.cr3', '.nef', '.nrw', '.arw', '.orf', '.rw2', '.raf',
+].join(',');
+
+// Enough bytes to tell every supported container apart
+export const FORMAT_SIGNATURE_LENGTH = 32;
+
+// TIFF-based RAW files share the plain TIFF header, so the extension decides
+const TIFF_RAW_EXTENSIONS: Record<string, ImageFormat> = {
+  dng: 'dng',
+  nef: 'nef',
+  nrw: 'nef',
+  arw: 'arw',
+  sr2: 'arw',
+};
+
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+export const detectImageFormat = (bytes: Uint8Array, fileName = ''): ImageFormat | undefined => {
+  const ascii = (start: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') return 'png';
+  if (ascii(0, 4) === 'GIF8') return 'gif';
+  if (ascii(0, 2) === 'BM') return 'bmp';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') return 'webp';
+  if (ascii(0, 15) === 'FUJIFILMCCD-RAW') return 'raf';
+
+  if (ascii(4, 4) === 'ftyp') {
+    const brands = [ascii(8, 4), ascii(16, 4), ascii(20, 4), ascii(24, 4)];
+    if (brands[0] === 'crx ') return 'cr3';
+    if (brands.some((brand) => AVIF_BRANDS.includes(brand))) return 'avif';
+    if (brands.some((brand) => HEIF_BRANDS.includes(brand))) return 'heic';
+    return undefined;
+  }
+
+  const order = ascii(0, 2);
+  if (order === 'II' || order === 'MM') {
+    const magic = ascii(2, 2);
+    if (magic === 'RO' || magic === 'SR' || magic === 'OR') return 'orf';
+    if (magic === 'U\0') return 'rw2';
+    if (magic === '*\0' || magic === '\0*') {
+      if (ascii(8, 2) === 'CR') return 'cr2';
+      const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+      return TIFF_RAW_EXTENSIONS[extension] ?? 'tiff';
+    }
+  }
+
+  return undefined;
+};
+
+export const detectFileFormat = async (file: File): Promise<ImageFormat | undefined> =>
+  detectImageFormat(new Uint8Array(await file.slice(0, FORMAT_SIGNATURE_LENGTH).arrayBuffer()), file.name);
+
+// RAW files rarely come with a MIME type, so fall back to the detected format
+export const getMimeType = (image: UploadedImage): string | undefined =>
+  image.file.type || (image.metadata.format && IMAGE_FORMATS[image.metadata.format].mimeType);
+
+// Formats every current browser can show in an <img>; the rest need a preview
+export const isBrowserDisplayable = (format: ImageFormat | undefined): boolean =>
+  format === 'jpeg' || format === 'png' || format === 'gif' || format === 'bmp' || format === 'webp';
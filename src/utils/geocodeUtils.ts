@@ -0,0 +1,93 @@
+import { PlaceInfo, UploadedImage } from '../types';
+import { withCountryZone } from './dateUtils';
+
+interface GazetteerPlace {
+  name: string;
+  latitude: number;
+  longitude: number;
+  countryCode: string;
+  region: string;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+let gazetteerPromise: Promise<GazetteerPlace[]> | undefined;
+const lookupCache = new Map<string, PlaceInfo | undefined>();
+const countryNames =
+  typeof Intl.DisplayNames === 'function' ? new Intl.DisplayNames(['en'], { type: 'region' }) : undefined;
+
+// The bundled gazetteer is split into its own chunk and only fetched from
+// this app's origin, so no coordinates ever leave the browser
+const loadGazetteer = (): Promise<GazetteerPlace[]> => {
+  if (!gazetteerPromise) {
+    gazetteerPromise = import('../data/places.tsv?raw').then((module) => parseGazetteer(module.default));
+  }
+  return gazetteerPromise;
+};
+
+export const reverseGeocode = async (latitude: number, longitude: number): Promise<PlaceInfo | undefined> => {
+  const key = `${latitude.toFixed(5)},${longitude.toFixed(5)}`;
+  if (lookupCache.has(key)) return lookupCache.get(key);
+
+  const places = await loadGazetteer();
+  let nearest: GazetteerPlace | undefined;
+  let nearestDistance = Infinity;
+  for (const place of places) {
+    const distance = getDistanceKm(latitude, longitude, place.latitude, place.longitude);
+    if (distance < nearestDistance) {
+      nearest = place;
+      nearestDistance = distance;
+    }
+  }
+
+  const result = nearest && {
+    city: nearest.name,
+    region: nearest.region || undefined,
+    country: countryNames?.of(nearest.countryCode) ?? nearest.countryCode,
+    countryCode: nearest.countryCode,
+    distanceKm: nearestDistance,
+  };
+  lookupCache.set(key, result);
+  return result;
+};
+
+// Returns the image with `place` resolved from its current GPS position
+export const withPlace = async (image: UploadedImage): Promise<UploadedImage> => {
+  const gps = image.metadata.gps;
+  try {
+    const place = gps ? await reverseGeocode(gps.latitude, gps.longitude) : undefined;
+    const capture = withCountryZone(image.metadata.capture, place?.countryCode);
+    return { ...image, place, metadata: { ...image.metadata, capture } };
+  } catch (error) {
+    console.error('Error resolving place:', error);
+    return image;
+  }
+};
+
+export const formatPlace = (place: PlaceInfo): string =>
+  [place.city, place.region, place.country].filter(Boolean).join(', ');
+
+export const getDistanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const toRad = (value: number) => (value * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Format: "#" comments, ">country<TAB>region" group headers, then "name<TAB>lat<TAB>lng"
+function parseGazetteer(text: string): GazetteerPlace[] {
+  const places: GazetteerPlace[] = [];
+  let countryCode = '';
+  let region = '';
+  for (const line of text.split('\n')) {
+    if (!line || line.startsWith('#')) continue;
+    if (line.startsWith('>')) {
+      [countryCode, region = ''] = line.slice(1).split('\t');
+      continue;
+    }
+    const [name, latitude, longitude] = line.split('\t');
+    places.push({ name, latitude: parseFloat(latitude), longitude: parseFloat(longitude), countryCode, region });
+  }
+  return places;
+}
@@ -0,0 +1,74 @@
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Bits in a difference hash: 8 rows of 8 left-to-right brightness comparisons
+export const HASH_BITS = 64;
+
+// Decodes an image, optionally downscaled to a maximum width to save memory
+export const loadBitmap = async (source: string | Blob, maxWidth?: number): Promise<ImageBitmap> => {
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+  const bitmap = await createImageBitmap(blob);
+  if (!maxWidth || bitmap.width <= maxWidth) return bitmap;
+
+  const scaled = await createImageBitmap(bitmap, {
+    resizeWidth: maxWidth,
+    resizeHeight: Math.max(1, Math.round((bitmap.height * maxWidth) / bitmap.width)),
+    resizeQuality: 'medium',
+  });
+  bitmap.close();
+  return scaled;
+};
+
+// dHash of the (cropped, rotated) image as 16 hex digits. Similar images
+// differ in only a few bits even after resizing or recompression.
+export const getDifferenceHash = (
+  source: CanvasImageSource & { width: number; height: number },
+  crop: CropRect = { x: 0, y: 0, width: source.width, height: source.height },
+  rotation: Rotation = 0,
+): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 9;
+  canvas.height = 8;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+  const [width, height] = rotation % 180 === 0 ? [9, 8] : [8, 9];
+  ctx.translate(4.5, 4);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, -width / 2, -height / 2, width, height);
+
+  const { data } = ctx.getImageData(0, 0, 9, 8);
+  const luminance = (index: number) =>
+    data[index * 4] * 0.299 + data[index * 4 + 1] * 0.587 + data[index * 4 + 2] * 0.114;
+
+  let hash = '';
+  for (let row = 0; row < 8; row++) {
+    let nibble = 0;
+    for (let col = 0; col < 8; col++) {
+      const bit = luminance(row * 9 + col) > luminance(row * 9 + col + 1) ? 1 : 0;
+      nibble = (nibble << 1) | bit;
+      if (col % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+};
+
+export const getHashDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
@@ -0,0 +1,353 @@
+export interface JpegSegment {
+  marker: number;
+  data: Uint8Array;
+}
+
+export interface ParsedJpeg {
+  segments: JpegSegment[];
+  imageData: Uint8Array;
+  // Bytes appended after EOI, e.g. MPF previews or vendor trailers
+  trailer: Uint8Array;
+}
+
+// A complete JPEG stream found inside another file, e.g. a RAW preview
+export interface EmbeddedJpeg {
+  offset: number;
+  length: number;
+  width: number;
+  height: number;
+  hasExif: boolean;
+}
+
+// One Image Resource Block entry of a Photoshop APP13 segment
+export interface PhotoshopResource {
+  signature: string;
+  id: number;
+  // Pascal string name, including its padding byte
+  name: Uint8Array;
+  data: Uint8Array;
+}
+
+// One IPTC-IIM dataset, kept as its raw bytes so it is written back unchanged
+export interface IptcDataset {
+  record: number;
+  dataset: number;
+  bytes: Uint8Array;
+}
+
+export type SegmentKind =
+  | 'jfif'
+  | 'exif'
+  | 'xmp'
+  | 'xmpExtended'
+  | 'icc'
+  | 'mpf'
+  | 'iptc'
+  | 'adobe'
+  | 'comment'
+  | 'other';
+
+export const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_EXTENDED_HEADER = 'http://ns.adobe.com/xmp/extension/\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+const MPF_HEADER = 'MPF\0';
+const IPTC_HEADER = 'Photoshop 3.0\0';
+export const IPTC_RESOURCE_ID = 0x0404;
+
+const SOI = 0xd8;
+const SOS = 0xda;
+const EOI = 0xd9;
+const SOF_MARKERS = [0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf];
+const DISPLAYABLE_SOF_MARKERS = [0xc0, 0xc1, 0xc2];
+
+export function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length > 3 && bytes[0] === 0xff && bytes[1] === SOI && bytes[2] === 0xff;
+}
+
+// Splits a JPEG into the header segments that precede the scan data, the
+// untouched scan data itself (SOS through EOI) and anything appended after it
+export function parseJpeg(buffer: ArrayBuffer): ParsedJpeg {
+  const bytes = new Uint8Array(buffer);
+  if (!isJpeg(bytes)) {
+    throw new Error('Not a JPEG file');
+  }
+
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      throw new Error(`Invalid JPEG marker at offset ${offset}`);
+    }
+
+    // Markers may be preceded by any number of 0xFF fill bytes
+    while (bytes[offset] === 0xff && offset < bytes.length) offset++;
+    const marker = bytes[offset];
+    offset++;
+
+    if (marker === SOS || marker === EOI) {
+      const end = marker === EOI ? offset : findEndOfImage(bytes, offset);
+      return {
+        segments,
+        imageData: bytes.subarray(offset - 2, end),
+        trailer: bytes.subarray(end),
+      };
+    }
+
+    const length = (bytes[offset] << 8) | bytes[offset + 1];
+    if (length < 2 || offset + length > bytes.length) {
+      throw new Error(`Truncated JPEG segment 0x${marker.toString(16)}`);
+    }
+
+    segments.push({ marker, data: bytes.subarray(offset + 2, offset + length) });
+    offset += length;
+  }
+
+  throw new Error('JPEG has no image data');
+}
+
+// Walks the marker segments of a (possibly partial) JPEG. Returns the length
+// of everything before the scan data once SOS is reached, or the number of
+// bytes that must be available to continue walking.
+export function scanJpegHeader(bytes: Uint8Array): { complete: boolean; length: number } {
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return { complete: true, length: offset };
+
+    while (bytes[offset] === 0xff && offset < bytes.length) offset++;
+    const marker = bytes[offset];
+    offset++;
+
+    if (marker === SOS || marker === EOI) return { complete: true, length: offset - 2 };
+
+    const length = (bytes[offset] << 8) | bytes[offset + 1];
+    offset += length;
+  }
+
+  return { complete: false, length: offset + 4 };
+}
+
+export function buildJpeg({ segments, imageData, trailer }: ParsedJpeg): Uint8Array {
+  const size = segments.reduce(
+    (total, segment) => total + segment.data.length + 4,
+    2 + imageData.length + trailer.length,
+  );
+  const output = new Uint8Array(size);
+  output[0] = 0xff;
+  output[1] = SOI;
+
+  let offset = 2;
+  for (const segment of segments) {
+    const length = segment.data.length + 2;
+    if (length > 0xffff) {
+      throw new Error(`JPEG segment 0x${segment.marker.toString(16)} is too large`);
+    }
+    output[offset] = 0xff;
+    output[offset + 1] = segment.marker;
+    output[offset + 2] = length >> 8;
+    output[offset + 3] = length & 0xff;
+    output.set(segment.data, offset + 4);
+    offset += length + 2;
+  }
+
+  output.set(imageData, offset);
+  output.set(trailer, offset + imageData.length);
+  return output;
+}
+
+export function getSegmentKind(segment: JpegSegment): SegmentKind {
+  const { marker } = segment;
+
+  if (marker === 0xfe) return 'comment';
+  if (marker === 0xe0 && hasPrefix(segment.data, 'JFIF\0')) return 'jfif';
+  if (marker === 0xe1) {
+    if (hasPrefix(segment.data, EXIF_HEADER)) return 'exif';
+    if (hasPrefix(segment.data, XMP_HEADER)) return 'xmp';
+    if (hasPrefix(segment.data, XMP_EXTENDED_HEADER)) return 'xmpExtended';
+  }
+  if (marker === 0xe2) {
+    if (hasPrefix(segment.data, ICC_HEADER)) return 'icc';
+    if (hasPrefix(segment.data, MPF_HEADER)) return 'mpf';
+  }
+  if (marker === 0xed && hasPrefix(segment.data, IPTC_HEADER)) return 'iptc';
+  if (marker === 0xee && hasPrefix(segment.data, 'Adobe')) return 'adobe';
+
+  return 'other';
+}
+
+export function createSegment(marker: number, header: string, payload: Uint8Array): JpegSegment {
+  const data = new Uint8Array(header.length + payload.length);
+  for (let i = 0; i < header.length; i++) data[i] = header.charCodeAt(i);
+  data.set(payload, header.length);
+  return { marker, data };
+}
+
+export function readXmpPacket(segment: JpegSegment): string {
+  return new TextDecoder().decode(segment.data.subarray(XMP_HEADER.length));
+}
+
+export function createXmpSegment(xml: string): JpegSegment {
+  return createSegment(0xe1, XMP_HEADER, new TextEncoder().encode(xml));
+}
+
+export function readPhotoshopResources(segment: JpegSegment): PhotoshopResource[] {
+  const { data } = segment;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const resources: PhotoshopResource[] = [];
+  let offset = IPTC_HEADER.length;
+
+  while (offset + 12 <= data.length) {
+    const signature = String.fromCharCode(...data.subarray(offset, offset + 4));
+    const id = view.getUint16(offset + 4);
+    // The name's length byte plus its text are padded to an even length
+    const nameLength = (data[offset + 6] + 2) & ~1;
+    const sizeOffset = offset + 6 + nameLength;
+    if (sizeOffset + 4 > data.length) break;
+    const size = view.getUint32(sizeOffset);
+    const dataOffset = sizeOffset + 4;
+    if (dataOffset + size > data.length) {
+      throw new Error('Truncated Photoshop resource block');
+    }
+
+    resources.push({
+      signature,
+      id,
+      name: data.subarray(offset + 6, sizeOffset),
+      data: data.subarray(dataOffset, dataOffset + size),
+    });
+    offset = dataOffset + size + (size % 2);
+  }
+
+  return resources;
+}
+
+export function createPhotoshopSegment(resources: PhotoshopResource[]): JpegSegment {
+  const size = resources.reduce(
+    (total, resource) =>
+      total + 10 + resource.name.length + resource.data.length + (resource.data.length % 2),
+    0,
+  );
+  const payload = new Uint8Array(size);
+  const view = new DataView(payload.buffer);
+  let offset = 0;
+
+  for (const resource of resources) {
+    for (let i = 0; i < 4; i++) payload[offset + i] = resource.signature.charCodeAt(i);
+    view.setUint16(offset + 4, resource.id);
+    payload.set(resource.name, offset + 6);
+    offset += 6 + resource.name.length;
+    view.setUint32(offset, resource.data.length);
+    payload.set(resource.data, offset + 4);
+    offset += 4 + resource.data.length + (resource.data.length % 2);
+  }
+
+  return createSegment(0xed, IPTC_HEADER, payload);
+}
+
+export function readIptcDatasets(data: Uint8Array): IptcDataset[] {
+  const datasets: IptcDataset[] = [];
+  let offset = 0;
+
+  while (offset + 5 <= data.length && data[offset] === 0x1c) {
+    let length = (data[offset + 3] << 8) | data[offset + 4];
+    let headerLength = 5;
+    // Extended datasets store the byte count of their length in the low bits
+    if (length & 0x8000) {
+      const count = length & 0x7fff;
+      length = 0;
+      for (let i = 0; i < count; i++) length = length * 256 + data[offset + 5 + i];
+      headerLength += count;
+    }
+    const end = offset + headerLength + length;
+    if (end > data.length) throw new Error('Truncated IPTC dataset');
+
+    datasets.push({ record: data[offset + 1], dataset: data[offset + 2], bytes: data.subarray(offset, end) });
+    offset = end;
+  }
+
+  return datasets;
+}
+
+export function writeIptcDatasets(datasets: IptcDataset[]): Uint8Array {
+  const output = new Uint8Array(datasets.reduce((total, { bytes }) => total + bytes.length, 0));
+  let offset = 0;
+  for (const { bytes } of datasets) {
+    output.set(bytes, offset);
+    offset += bytes.length;
+  }
+  return output;
+}
+
+// Finds every baseline or progressive JPEG stream in a container such as a
+// RAW file. Lossless streams (RAW sensor data) can't be shown and are skipped.
+export function findEmbeddedJpegs(bytes: Uint8Array): EmbeddedJpeg[] {
+  const found: EmbeddedJpeg[] = [];
+  let start = bytes.indexOf(0xff);
+
+  while (start >= 0 && start < bytes.length - 3) {
+    if (bytes[start + 1] !== SOI || bytes[start + 2] !== 0xff) {
+      start = bytes.indexOf(0xff, start + 1);
+      continue;
+    }
+
+    const jpeg = readEmbeddedJpeg(bytes, start);
+    if (jpeg && jpeg.width > 0) found.push(jpeg);
+    start = bytes.indexOf(0xff, jpeg ? start + jpeg.length : start + 2);
+  }
+
+  return found;
+}
+
+function readEmbeddedJpeg(bytes: Uint8Array, start: number): EmbeddedJpeg | undefined {
+  let offset = start + 2;
+  let width = 0;
+  let height = 0;
+  let hasExif = false;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return undefined;
+    while (bytes[offset] === 0xff && offset < bytes.length) offset++;
+    const marker = bytes[offset];
+    offset++;
+
+    if (marker === SOS) {
+      const end = findEndOfImage(bytes, offset);
+      return { offset: start, length: end - start, width, height, hasExif };
+    }
+    if (marker === EOI) return undefined;
+
+    const length = (bytes[offset] << 8) | bytes[offset + 1];
+    if (length < 2) return undefined;
+    const data = bytes.subarray(offset + 2, offset + length);
+
+    if (marker === 0xe1 && hasPrefix(data, EXIF_HEADER)) hasExif = true;
+    if (SOF_MARKERS.includes(marker) && data.length >= 5) {
+      // Lossless and hierarchical frames hold sensor data, not a preview
+      if (!DISPLAYABLE_SOF_MARKERS.includes(marker)) return undefined;
+      height = (data[1] << 8) | data[2];
+      width = (data[3] << 8) | data[4];
+    }
+    offset += length;
+  }
+
+  return undefined;
+}
+
+// Inside entropy-coded data 0xFF is always stuffed with 0x00 or followed by a
+// restart marker, so the first real FFD9 ends the primary image
+function findEndOfImage(bytes: Uint8Array, start: number): number {
+  for (let i = start; i < bytes.length - 1; i++) {
+    if (bytes[i] === 0xff && bytes[i + 1] === EOI) return i + 2;
+  }
+  return bytes.length;
+}
+
+function hasPrefix(data: Uint8Array, prefix: string): boolean {
+  if (data.length < prefix.length) return false;
+  for (let i = 0; i < prefix.length; i++) {
+    if (data[i] !== prefix.charCodeAt(i)) return false;
+  }
+  return true;
+}
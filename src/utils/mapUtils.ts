@@ -0,0 +1,132 @@
+import { UploadedImage } from '../types';
+import { getCaptureTimestamp } from './dateUtils';
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export interface Cluster<T> {
+  items: T[];
+  latitude: number;
+  longitude: number;
+}
+
+export interface TileSource {
+  // Leaflet URL template, e.g. https://tiles.example.org/{z}/{x}/{y}.png
+  url: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+export const DEFAULT_TILE_SOURCE: TileSource = {
+  url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  maxZoom: 19,
+};
+
+export const TILE_PRESETS: { label: string; source: TileSource }[] = [
+  { label: 'OpenStreetMap', source: DEFAULT_TILE_SOURCE },
+  {
+    label: 'OpenTopoMap',
+    source: {
+      url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+      attribution:
+        '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors, &copy; <a href="https://opentopomap.org">OpenTopoMap</a>',
+      maxZoom: 17,
+    },
+  },
+];
+
+// GPS images with a readable capture time, oldest first
+export const getPhotoTrail = (images: UploadedImage[]): UploadedImage[] =>
+  images
+    .map((image) => ({ image, time: getCaptureTimestamp(image.metadata) }))
+    .filter(({ image, time }) => image.metadata.gps && time !== undefined)
+    .sort((a, b) => a.time! - b.time!)
+    .map(({ image }) => image);
+
+// Groups images whose projected positions share a grid cell of `radius` pixels
+export const clusterImages = (
+  images: UploadedImage[],
+  project: (latitude: number, longitude: number) => PixelPoint,
+  radius: number,
+): Cluster<UploadedImage>[] => {
+  const cells = new Map<string, UploadedImage[]>();
+  images.forEach((image) => {
+    const { latitude, longitude } = image.metadata.gps!;
+    const point = project(latitude, longitude);
+    const key = `${Math.floor(point.x / radius)}:${Math.floor(point.y / radius)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(image);
+    else cells.set(key, [image]);
+  });
+
+  return [...cells.values()].map((items) => ({
+    items,
+    latitude: average(items.map((image) => image.metadata.gps!.latitude)),
+    longitude: average(items.map((image) => image.metadata.gps!.longitude)),
+  }));
+};
+
+// Returns an error message, or undefined when the source is usable
+export const validateTileSource = (source: TileSource): string | undefined => {
+  if (!['{z}', '{x}', '{y}'].every((placeholder) => source.url.includes(placeholder))) {
+    return 'The URL template needs {z}, {x} and {y} placeholders';
+  }
+  if (!Number.isInteger(source.maxZoom) || source.maxZoom < 1 || source.maxZoom > 24) {
+    return 'Max zoom must be a whole number between 1 and 24';
+  }
+  return undefined;
+};
+
+// Grid spacing in degrees that gives a handful of lines across a tile at this zoom
+export const getGridStep = (zoom: number): number => {
+  const tileDegrees = 360 / 2 ** zoom;
+  const steps = [30, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01, 0.005, 0.002, 0.001, 0.0005, 0.0002, 0.0001];
+  return steps.find((step) => step <= tileDegrees / 2) ?? steps[steps.length - 1];
+};
+
+// Fractional Web Mercator tile coordinates of a position at the given zoom
+export const toTileCoordinates = (latitude: number, longitude: number, zoom: number): PixelPoint => {
+  const scale = 2 ** zoom;
+  const latRad = (latitude * Math.PI) / 180;
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * scale,
+  };
+};
+
+export const fromTileCoordinates = (x: number, y: number, zoom: number): { latitude: number; longitude: number } => {
+  const scale = 2 ** zoom;
+  return {
+    latitude: (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / scale))) * 180) / Math.PI,
+    longitude: (x / scale) * 360 - 180,
+  };
+};
+
+// Screen angle in degrees, clockwise from east, as used by CSS rotate()
+export const getScreenAngle = (from: PixelPoint, to: PixelPoint): number =>
+  (Math.atan2(to.y - from.y, to.x - from.x) * 180) / Math.PI;
+
+// Outline of a camera's view: the apex, then an arc `length` pixels away
+// spanning the field of view around a bearing clockwise from north
+export const getViewCone = (
+  origin: PixelPoint,
+  bearing: number,
+  fieldOfView: number,
+  length: number,
+  arcSteps = 8,
+): PixelPoint[] => {
+  const start = bearing - fieldOfView / 2;
+  const arc = Array.from({ length: arcSteps + 1 }, (_, step) => {
+    const angle = ((start + (fieldOfView * step) / arcSteps) * Math.PI) / 180;
+    // Screen y grows downwards, so north is -y
+    return { x: origin.x + Math.sin(angle) * length, y: origin.y - Math.cos(angle) * length };
+  });
+  return [origin, ...arc];
+};
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
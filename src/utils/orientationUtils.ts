@@ -0,0 +1,98 @@
+import { ImageFormat } from '../types';
+
+export type RotateDirection = 'left' | 'right';
+export type FlipAxis = 'horizontal' | 'vertical';
+
+// Each EXIF Orientation value as "rotate clockwise, then mirror horizontally"
+interface OrientationTransform {
+  rotation: 0 | 90 | 180 | 270;
+  mirror: boolean;
+}
+
+const TRANSFORMS: Record<number, OrientationTransform> = {
+  1: { rotation: 0, mirror: false },
+  2: { rotation: 0, mirror: true },
+  3: { rotation: 180, mirror: false },
+  4: { rotation: 180, mirror: true },
+  5: { rotation: 90, mirror: true },
+  6: { rotation: 90, mirror: false },
+  7: { rotation: 270, mirror: true },
+  8: { rotation: 270, mirror: false },
+};
+
+export const ORIENTATION_LABELS: Record<number, string> = {
+  1: 'Normal',
+  2: 'Mirrored horizontally',
+  3: 'Rotated 180°',
+  4: 'Mirrored vertically',
+  5: 'Mirrored horizontally, rotated 270° CW',
+  6: 'Rotated 90° CW',
+  7: 'Mirrored horizontally, rotated 90° CW',
+  8: 'Rotated 270° CW',
+};
+
+// Decoders of these formats already apply the container's rotation and
+// mirroring, so the EXIF value is informational only
+const SELF_ORIENTING_FORMATS: ImageFormat[] = ['heic', 'avif'];
+
+export const normalizeOrientation = (value: number | undefined): number =>
+  value !== undefined && TRANSFORMS[value] ? value : 1;
+
+export const needsOrientation = (format: ImageFormat | undefined, orientation: number | undefined): boolean =>
+  normalizeOrientation(orientation) !== 1 && !(format && SELF_ORIENTING_FORMATS.includes(format));
+
+// Orientation after turning the displayed image a further 90°
+export const rotateOrientation = (orientation: number | undefined, direction: RotateDirection): number => {
+  const { rotation, mirror } = TRANSFORMS[normalizeOrientation(orientation)];
+  // Mirroring reverses the sense of the rotation applied before it
+  const step = (direction === 'right') !== mirror ? 90 : 270;
+  return toOrientation((rotation + step) % 360, mirror);
+};
+
+// Orientation after mirroring the displayed image
+export const flipOrientation = (orientation: number | undefined, axis: FlipAxis): number => {
+  const { rotation, mirror } = TRANSFORMS[normalizeOrientation(orientation)];
+  return toOrientation(axis === 'horizontal' ? rotation : (rotation + 180) % 360, !mirror);
+};
+
+// Draws stored pixels so they appear the way the Orientation tag says they should
+export const drawOriented = async (source: Blob, orientation: number, type: string, quality?: number): Promise<Blob> => {
+  const bitmap = await createImageBitmap(source);
+  const { width, height } = bitmap;
+  const transposed = normalizeOrientation(orientation) >= 5;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = transposed ? height : width;
+  canvas.height = transposed ? width : height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.setTransform(...getCanvasTransform(orientation, width, height));
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Canvas export failed'))), type, quality),
+  );
+};
+
+function getCanvasTransform(
+  orientation: number,
+  width: number,
+  height: number,
+): [number, number, number, number, number, number] {
+  switch (normalizeOrientation(orientation)) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, height, 0];
+    case 7: return [0, -1, -1, 0, height, width];
+    case 8: return [0, -1, 1, 0, 0, width];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+}
+
+function toOrientation(rotation: number, mirror: boolean): number {
+  return Number(
+    Object.keys(TRANSFORMS).find((key) => TRANSFORMS[+key].rotation === rotation && TRANSFORMS[+key].mirror === mirror),
+  );
+}
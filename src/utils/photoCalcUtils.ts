@@ -0,0 +1,176 @@
+import { RawTags } from '../types';
+import { getTagNumber } from './tagUtils';
+
+export interface DerivedValue {
+  label: string;
+  value: string;
+  // Tag paths the value was computed from
+  sources: string[];
+}
+
+interface SourcedNumber {
+  value: number;
+  sources: string[];
+}
+
+// Diagonal of a 36×24 mm frame
+const FULL_FRAME_DIAGONAL = Math.hypot(36, 24);
+const FULL_FRAME_WIDTH = 36;
+const FULL_FRAME_HEIGHT = 24;
+// Circle of confusion for a full-frame sensor, scaled down by the crop factor
+const FULL_FRAME_COC = 0.03;
+// FocalPlaneResolutionUnit values, in millimetres per unit
+const RESOLUTION_UNIT_MM: Record<number, number> = { 2: 25.4, 3: 10, 4: 1, 5: 0.001 };
+
+// Computes exposure, field of view and focus values from the raw tags. Each
+// result lists the tags it came from; values whose inputs are missing are left out.
+export const getDerivedValues = (tags: RawTags | undefined): DerivedValue[] => {
+  const values: DerivedValue[] = [];
+  const focal = readNumber(tags, 'exif.FocalLength');
+  const aperture = readAperture(tags);
+  const exposure = readExposureTime(tags);
+  const iso = readNumber(tags, 'exif.ISOSpeedRatings');
+
+  if (aperture && exposure) {
+    // EV at ISO 100: log2(N²/t), shifted back by the ISO actually used
+    const ev = Math.log2((aperture.value * aperture.value) / exposure.value) - (iso ? Math.log2(iso.value / 100) : 0);
+    values.push({
+      label: iso ? 'Exposure value (EV100)' : 'Exposure value (EV, ISO unknown)',
+      value: ev.toFixed(1),
+      sources: [...aperture.sources, ...exposure.sources, ...(iso?.sources ?? [])],
+    });
+  }
+
+  const crop = readCropFactor(tags, focal);
+  const equivalent = readEquivalentFocalLength(tags, focal, crop);
+
+  if (crop) {
+    values.push({ label: 'Crop factor', value: `${crop.value.toFixed(2)}×`, sources: crop.sources });
+  }
+  if (equivalent) {
+    values.push({ label: '35 mm equivalent', value: `${Math.round(equivalent.value)} mm`, sources: equivalent.sources });
+    values.push({
+      label: 'Field of view',
+      value: `${formatAngle(FULL_FRAME_DIAGONAL, equivalent.value)} diagonal, ${formatAngle(FULL_FRAME_WIDTH, equivalent.value)} horizontal`,
+      sources: equivalent.sources,
+    });
+  }
+
+  if (focal && aperture && crop) {
+    const coc = FULL_FRAME_COC / crop.value;
+    const hyperfocal = (focal.value * focal.value) / (aperture.value * coc) + focal.value;
+    const focusSources = unique([...focal.sources, ...aperture.sources, ...crop.sources]);
+    values.push({ label: 'Hyperfocal distance', value: formatDistance(hyperfocal), sources: focusSources });
+
+    const subject = readNumber(tags, 'exif.SubjectDistance');
+    if (subject && subject.value > 0) {
+      const distance = subject.value * 1000;
+      const near = (distance * (hyperfocal - focal.value)) / (hyperfocal + distance - 2 * focal.value);
+      const far = distance < hyperfocal ? (distance * (hyperfocal - focal.value)) / (hyperfocal - distance) : Infinity;
+      values.push({
+        label: 'Depth of field',
+        value: `${formatDistance(near)} – ${formatDistance(far)}${isFinite(far) ? ` (${formatDistance(far - near)})` : ''}`,
+        sources: [...focusSources, ...subject.sources],
+      });
+    }
+  }
+
+  return values;
+};
+
+// Horizontal angle of view in degrees as the photo is displayed, so portrait
+// frames use the short side of the sensor
+export const getHorizontalFieldOfView = (tags: RawTags | undefined, orientation?: number): number | undefined => {
+  const focal = readNumber(tags, 'exif.FocalLength');
+  const equivalent = readEquivalentFocalLength(tags, focal, readCropFactor(tags, focal));
+  if (!equivalent) return undefined;
+
+  const width = getTagNumber(tags, 'exif.PixelXDimension') ?? getTagNumber(tags, 'file.Image Width');
+  const height = getTagNumber(tags, 'exif.PixelYDimension') ?? getTagNumber(tags, 'file.Image Height');
+  const storedPortrait = !!width && !!height && height > width;
+  const portrait = storedPortrait !== (orientation !== undefined && orientation >= 5);
+  return toDegrees(2 * Math.atan((portrait ? FULL_FRAME_HEIGHT : FULL_FRAME_WIDTH) / (2 * equivalent.value)));
+};
+
+function readEquivalentFocalLength(
+  tags: RawTags | undefined,
+  focal: SourcedNumber | undefined,
+  crop: SourcedNumber | undefined,
+): SourcedNumber | undefined {
+  const equivalent = readNumber(tags, 'exif.FocalLengthIn35mmFilm');
+  if (equivalent || !focal || !crop) return equivalent;
+  return { value: focal.value * crop.value, sources: unique([...focal.sources, ...crop.sources]) };
+}
+
+// The 35 mm tag and the real focal length give the ratio directly; otherwise
+// the sensor size is worked out from the focal plane resolution
+function readCropFactor(tags: RawTags | undefined, focal: SourcedNumber | undefined): SourcedNumber | undefined {
+  const equivalent = readNumber(tags, 'exif.FocalLengthIn35mmFilm');
+  if (focal && equivalent && focal.value > 0) {
+    return { value: equivalent.value / focal.value, sources: [...equivalent.sources, ...focal.sources] };
+  }
+
+  const xResolution = readNumber(tags, 'exif.FocalPlaneXResolution');
+  const yResolution = readNumber(tags, 'exif.FocalPlaneYResolution');
+  const unit = readNumber(tags, 'exif.FocalPlaneResolutionUnit') ?? { value: 2, sources: [] };
+  const width = readNumber(tags, 'exif.PixelXDimension') ?? readNumber(tags, 'file.Image Width');
+  const height = readNumber(tags, 'exif.PixelYDimension') ?? readNumber(tags, 'file.Image Height');
+  const unitMm = RESOLUTION_UNIT_MM[unit.value];
+  if (!xResolution || !yResolution || !width || !height || !unitMm) return undefined;
+
+  const sensorWidth = (width.value / xResolution.value) * unitMm;
+  const sensorHeight = (height.value / yResolution.value) * unitMm;
+  const diagonal = Math.hypot(sensorWidth, sensorHeight);
+  if (!(diagonal > 0)) return undefined;
+
+  return {
+    value: FULL_FRAME_DIAGONAL / diagonal,
+    sources: [
+      ...xResolution.sources,
+      ...yResolution.sources,
+      ...unit.sources,
+      ...width.sources,
+      ...height.sources,
+    ],
+  };
+}
+
+// FNumber, or the APEX ApertureValue (Av = 2·log2 N)
+function readAperture(tags: RawTags | undefined): SourcedNumber | undefined {
+  const fNumber = readNumber(tags, 'exif.FNumber');
+  if (fNumber) return fNumber;
+  const apex = readNumber(tags, 'exif.ApertureValue', true);
+  return apex && { value: Math.pow(2, apex.value / 2), sources: apex.sources };
+}
+
+// ExposureTime, or the APEX ShutterSpeedValue (Tv = -log2 t)
+function readExposureTime(tags: RawTags | undefined): SourcedNumber | undefined {
+  const time = readNumber(tags, 'exif.ExposureTime');
+  if (time) return time;
+  const apex = readNumber(tags, 'exif.ShutterSpeedValue', true);
+  return apex && { value: Math.pow(2, -apex.value), sources: apex.sources };
+}
+
+// Zero means "unknown" in EXIF unless allowed
+function readNumber(tags: RawTags | undefined, path: string, allowZero = false): SourcedNumber | undefined {
+  const number = getTagNumber(tags, path);
+  if (number === undefined || (!allowZero && number <= 0)) return undefined;
+  return { value: number, sources: [path] };
+}
+
+function formatAngle(frameSize: number, focalLength: number): string {
+  return `${toDegrees(2 * Math.atan(frameSize / (2 * focalLength))).toFixed(0)}°`;
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+function formatDistance(millimetres: number): string {
+  if (!isFinite(millimetres)) return '∞';
+  return millimetres >= 1000 ? `${(millimetres / 1000).toFixed(2)} m` : `${(millimetres / 10).toFixed(1)} cm`;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
@@ -0,0 +1,110 @@
+import { ExtractionResult, ImageFormat, UploadedImage } from '../types';
+import { IMAGE_FORMATS, isBrowserDisplayable } from './formatUtils';
+import { isJpeg } from './jpegUtils';
+import { writeMetadataEdits } from './editUtils';
+import { drawOriented, needsOrientation, normalizeOrientation } from './orientationUtils';
+import { getTagNumber } from './tagUtils';
+
+const PREVIEW_QUALITY = 0.85;
+
+// Returns a displayable stand-in for files the browser can't show (the
+// embedded JPEG, a decoded copy, or a labelled placeholder) with the
+// Orientation tag applied to its pixels. Undefined means the file itself
+// can be used as the preview.
+export const createPreviewBlob = async (file: File, result: ExtractionResult): Promise<Blob | undefined> => {
+  const { format, orientation } = result.metadata;
+  const preview = await createDisplayableBlob(file, result);
+  if (!needsOrientation(format, orientation)) return preview;
+  return (await createOrientedPreview(preview ?? file, orientation!)) ?? preview;
+};
+
+// New preview after the Orientation tag of a JPEG was edited. The file keeps
+// its own tag until the edit is downloaded and the browser would apply that
+// one, so a baked preview is needed whenever the two differ, even for 1.
+export const withOrientedPreview = async (image: UploadedImage, orientation: number): Promise<UploadedImage> => {
+  const fileOrientation = normalizeOrientation(getTagNumber(image.tags, 'exif.Orientation'));
+  const previewBlob =
+    needsOrientation(image.metadata.format, orientation) || fileOrientation !== normalizeOrientation(orientation)
+      ? await createOrientedPreview(image.file, orientation)
+      : undefined;
+  return { ...image, preview: URL.createObjectURL(previewBlob ?? image.file), previewBlob };
+};
+
+// Browsers disagree on whether (and where) they honour the Orientation tag,
+// so the tag is reset and the rotation baked into the pixels instead. Only
+// JPEG sources can be reset; anything else is left to the browser.
+export async function createOrientedPreview(source: Blob, orientation: number): Promise<Blob | undefined> {
+  try {
+    if (!isJpeg(new Uint8Array(await source.slice(0, 4).arrayBuffer()))) return undefined;
+    const upright = await writeMetadataEdits(source, { orientation: 1 });
+    return await drawOriented(upright, orientation, 'image/jpeg', PREVIEW_QUALITY);
+  } catch (error) {
+    console.warn('Could not apply orientation to preview:', error);
+    return undefined;
+  }
+}
+
+async function createDisplayableBlob(file: File, result: ExtractionResult): Promise<Blob | undefined> {
+  const format = result.metadata.format;
+  if (!format || isBrowserDisplayable(format)) return undefined;
+  if (result.preview) return result.preview;
+  // Safari decodes HEIC and TIFF natively, most browsers decode AVIF
+  if (await canDecode(file)) return undefined;
+
+  try {
+    if (format === 'heic') return await decodeHeic(file);
+    if (format === 'tiff' || format === 'dng') return await decodeTiff(file);
+  } catch (error) {
+    console.warn(`Could not decode ${file.name}:`, error);
+  }
+  return createPlaceholder(format);
+}
+
+async function canDecode(blob: Blob): Promise<boolean> {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    bitmap.close();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function decodeHeic(file: File): Promise<Blob> {
+  const { default: heic2any } = await import('heic2any');
+  const output = await heic2any({ blob: file, toType: 'image/jpeg', quality: PREVIEW_QUALITY });
+  return Array.isArray(output) ? output[0] : output;
+}
+
+async function decodeTiff(file: File): Promise<Blob> {
+  const UTIF = await import('utif');
+  const buffer = await file.arrayBuffer();
+  const [ifd] = UTIF.decode(buffer);
+  if (!ifd) throw new Error('TIFF has no images');
+  UTIF.decodeImage(buffer, ifd);
+  const rgba = UTIF.toRGBA8(ifd);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = ifd.width;
+  canvas.height = ifd.height;
+  canvas
+    .getContext('2d')!
+    .putImageData(new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength), ifd.width, ifd.height), 0, 0);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Canvas export failed'))),
+      'image/jpeg',
+      PREVIEW_QUALITY,
+    ),
+  );
+}
+
+function createPlaceholder(format: ImageFormat): Blob {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300" viewBox="0 0 400 300">
+  <rect width="400" height="300" fill="#dbeafe"/>
+  <text x="200" y="150" font-family="sans-serif" font-size="32" text-anchor="middle" fill="#1e3a8a">${IMAGE_FORMATS[format].label}</text>
+  <text x="200" y="190" font-family="sans-serif" font-size="16" text-anchor="middle" fill="#3b82f6">No preview available</text>
+</svg>`;
+  return new Blob([svg], { type: 'image/svg+xml' });
+}
@@ -0,0 +1,186 @@
+import { UploadedImage } from '../types';
+import { exifDateToIso } from './dateUtils';
+import { getDistanceKm } from './geocodeUtils';
+import { RawTagEntry, flattenTags, getTagValue } from './tagUtils';
+
+export type PrivacyCheck =
+  | 'preciseGps'
+  | 'repeatedLocation'
+  | 'owner'
+  | 'serial'
+  | 'deviceId'
+  | 'thumbnail'
+  | 'software';
+
+export type PrivacyLevel = 'none' | 'low' | 'medium' | 'high';
+
+export interface PrivacyFinding {
+  check: PrivacyCheck;
+  detail: string;
+  weight: number;
+}
+
+export interface PrivacyReport {
+  // 0 (nothing found) to 100
+  score: number;
+  level: PrivacyLevel;
+  findings: PrivacyFinding[];
+}
+
+export const PRIVACY_CHECKS: Record<PrivacyCheck, { label: string; explanation: string; weight: number }> = {
+  preciseGps: {
+    label: 'GPS position',
+    explanation: 'Coordinates pinpoint where the photo was taken, often to within a few metres.',
+    weight: 35,
+  },
+  repeatedLocation: {
+    label: 'Repeated location',
+    explanation: 'Several photos share the same spot, which usually means a home, school or workplace.',
+    weight: 25,
+  },
+  owner: {
+    label: 'Owner or author',
+    explanation: 'Names of the owner, artist or copyright holder identify a person directly.',
+    weight: 20,
+  },
+  serial: {
+    label: 'Serial numbers',
+    explanation: 'Camera and lens serial numbers link every photo taken with the same gear.',
+    weight: 15,
+  },
+  deviceId: {
+    label: 'Device or image IDs',
+    explanation: 'Unique IDs, often hidden in vendor MakerNotes, can tie photos to one device.',
+    weight: 10,
+  },
+  thumbnail: {
+    label: 'Embedded preview',
+    explanation: 'A thumbnail or preview inside the file may still show the uncropped or unedited original.',
+    weight: 10,
+  },
+  software: {
+    label: 'Editing traces',
+    explanation: 'Software names and edit history reveal the tools and steps used after capture.',
+    weight: 5,
+  },
+};
+
+const REPEAT_RADIUS_KM = 0.1;
+const REPEAT_MIN_PHOTOS = 3;
+const MAX_DETAILS = 4;
+
+const OWNER_TAGS = new Set([
+  'Artist', 'Copyright', 'CameraOwnerName', 'OwnerName', 'By-line', 'Copyright Notice',
+  'creator', 'rights', 'XPAuthor', 'Credit',
+]);
+const SOFTWARE_TAGS = new Set([
+  'Software', 'ProcessingSoftware', 'CreatorTool', 'History', 'DocumentID', 'InstanceID',
+  'OriginalDocumentID', 'DerivedFrom',
+]);
+const DEVICE_ID_PATTERN = /(UniqueID|SerialNumber|OwnerName|InternalSerial|BodyID|CameraID|HostComputer)/i;
+
+export const analyzePrivacyBatch = (images: UploadedImage[]): Map<string, PrivacyReport> => {
+  const repeats = findRepeatedLocations(images);
+  return new Map(images.map((image) => [image.id, analyzePrivacy(image, repeats.get(image.id))]));
+};
+
+export const analyzePrivacy = (image: UploadedImage, repeat?: string): PrivacyReport => {
+  const findings: PrivacyFinding[] = [];
+  const add = (check: PrivacyCheck, details: string[], weight = PRIVACY_CHECKS[check].weight) => {
+    if (details.length === 0) return;
+    const shown = details.slice(0, MAX_DETAILS);
+    const more = details.length > MAX_DETAILS ? `; +${details.length - MAX_DETAILS} more` : '';
+    findings.push({ check, detail: `${shown.join('; ')}${more}`, weight });
+  };
+
+  const gps = image.metadata.gps;
+  if (gps) {
+    const precise = !isCoarseCoordinate(gps.latitude) || !isCoarseCoordinate(gps.longitude);
+    const position = `${gps.latitude.toFixed(6)}, ${gps.longitude.toFixed(6)}`;
+    add(
+      'preciseGps',
+      [precise ? position : `${position} (rounded, roughly 100 m or coarser)`],
+      precise ? PRIVACY_CHECKS.preciseGps.weight : Math.round(PRIVACY_CHECKS.preciseGps.weight / 2),
+    );
+  }
+  if (repeat) add('repeatedLocation', [repeat]);
+
+  const entries = flattenTags(image.tags).filter((entry) => entry.description.trim());
+  const baseName = (entry: RawTagEntry) => entry.name.split('.')[0];
+  const describe = (entry: RawTagEntry) => `${entry.path}: ${truncate(entry.description)}`;
+
+  add('owner', entries.filter((entry) => OWNER_TAGS.has(baseName(entry))).map(describe));
+  add(
+    'serial',
+    entries
+      .filter((entry) => entry.source !== 'MakerNote' && /SerialNumber$/i.test(baseName(entry)))
+      .map(describe),
+  );
+
+  const deviceIds = entries
+    .filter((entry) =>
+      entry.source === 'MakerNote'
+        ? entry.name !== 'MakerNote' && DEVICE_ID_PATTERN.test(entry.name)
+        : baseName(entry) === 'ImageUniqueID' || baseName(entry) === 'HostComputer',
+    )
+    .map(describe);
+  const hasDecodedMakerNotes = entries.some((entry) => entry.path.startsWith('makerNotes.'));
+  if (getTagValue(image.tags, 'exif.MakerNote') && !hasDecodedMakerNotes) {
+    deviceIds.push('Undecoded vendor MakerNote present; these often hold serial numbers');
+  }
+  add('deviceId', deviceIds);
+
+  const previews: string[] = [];
+  if (getTagValue(image.tags, 'Thumbnail.image')) previews.push('EXIF thumbnail');
+  const mpfImages = getTagValue(image.tags, 'mpf.Images');
+  if (Array.isArray(mpfImages) && mpfImages.length > 1) {
+    previews.push(`${mpfImages.length - 1} MPF preview image(s)`);
+  }
+  add('thumbnail', previews);
+
+  add('software', entries.filter((entry) => SOFTWARE_TAGS.has(baseName(entry))).map(describe));
+
+  const score = Math.min(100, findings.reduce((sum, finding) => sum + finding.weight, 0));
+  return { score, level: getPrivacyLevel(score), findings };
+};
+
+export const getPrivacyLevel = (score: number): PrivacyLevel => {
+  if (score >= 50) return 'high';
+  if (score >= 20) return 'medium';
+  if (score > 0) return 'low';
+  return 'none';
+};
+
+// Photos taken at nearly the same spot several times, or on more than one day
+function findRepeatedLocations(images: UploadedImage[]): Map<string, string> {
+  const located = images.filter((image) => image.metadata.gps);
+  const result = new Map<string, string>();
+
+  for (const image of located) {
+    const { latitude, longitude } = image.metadata.gps!;
+    const nearby = located.filter(
+      (other) =>
+        getDistanceKm(latitude, longitude, other.metadata.gps!.latitude, other.metadata.gps!.longitude) <=
+        REPEAT_RADIUS_KM,
+    );
+    const days = new Set(
+      nearby.map((other) => exifDateToIso(other.metadata.dateTime).slice(0, 10)).filter(Boolean),
+    );
+    if (nearby.length >= REPEAT_MIN_PHOTOS || days.size >= 2) {
+      const dayText = days.size > 1 ? ` on ${days.size} different days` : '';
+      result.set(image.id, `${nearby.length} photos within ${REPEAT_RADIUS_KM * 1000} m${dayText}`);
+    }
+  }
+
+  return result;
+}
+
+// Rounded to three decimals (about 100 m) or to whole arc minutes
+function isCoarseCoordinate(value: number): boolean {
+  const isWhole = (scaled: number) => Math.abs(scaled - Math.round(scaled)) < 1e-6;
+  return isWhole(value * 1000) || isWhole(value * 60);
+}
+
+function truncate(text: string, length = 80): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
@@ -0,0 +1,113 @@
+import { ImageFormat } from '../types';
+import { EmbeddedJpeg, findEmbeddedJpegs } from './jpegUtils';
+import { createExifStructure, readExif, writeExif } from './tiffUtils';
+
+// Canon's metadata box inside the CR3 'moov' box
+const CANON_UUID = '85c0b687820f11e08111f4ce462b6a48';
+
+interface Box {
+  type: string;
+  start: number;
+  end: number;
+}
+
+// Returns the bytes ExifReader should parse. Most formats are read as they
+// are; the rest are rewritten into a TIFF or narrowed to an embedded JPEG.
+export const getMetadataBuffer = (buffer: ArrayBuffer, format: ImageFormat | undefined): ArrayBuffer => {
+  const bytes = new Uint8Array(buffer);
+
+  switch (format) {
+    case 'cr3':
+      return cr3ToTiff(bytes)?.buffer ?? buffer;
+    case 'orf': {
+      // Olympus swaps the TIFF magic number for its own; the IFDs are standard
+      const tiff = bytes.slice();
+      const littleEndian = tiff[0] === 0x49;
+      tiff[2] = littleEndian ? 42 : 0;
+      tiff[3] = littleEndian ? 0 : 42;
+      return tiff.buffer;
+    }
+    case 'rw2':
+    case 'raf': {
+      // Their own headers are vendor-specific, but the embedded JPEG has full EXIF
+      const jpeg = findEmbeddedJpegs(bytes).find((candidate) => candidate.hasExif);
+      return jpeg ? buffer.slice(jpeg.offset, jpeg.offset + jpeg.length) : buffer;
+    }
+    default:
+      return buffer;
+  }
+};
+
+// The largest displayable JPEG stored inside a RAW or TIFF file
+export const findPreviewJpeg = (bytes: Uint8Array): Blob | undefined => {
+  const largest = findEmbeddedJpegs(bytes).reduce<EmbeddedJpeg | undefined>(
+    (best, jpeg) => (!best || jpeg.width * jpeg.height > best.width * best.height ? jpeg : best),
+    undefined,
+  );
+  return largest
+    ? new Blob([bytes.slice(largest.offset, largest.offset + largest.length)], { type: 'image/jpeg' })
+    : undefined;
+};
+
+// CR3 keeps IFD0, the Exif IFD and the GPS IFD as separate TIFF blocks
+// (CMT1, CMT2, CMT4); they are merged into one TIFF for ExifReader
+function cr3ToTiff(bytes: Uint8Array): Uint8Array | undefined {
+  const moov = readBoxes(bytes, 0, bytes.length).find((box) => box.type === 'moov');
+  if (!moov) return undefined;
+
+  const canon = readBoxes(bytes, moov.start, moov.end).find(
+    (box) => box.type === 'uuid' && toHex(bytes.subarray(box.start, box.start + 16)) === CANON_UUID,
+  );
+  if (!canon) return undefined;
+
+  const blocks = readBoxes(bytes, canon.start + 16, canon.end);
+  const readBlock = (type: string) => {
+    const box = blocks.find((block) => block.type === type);
+    if (!box) return undefined;
+    try {
+      return readExif(bytes.subarray(box.start, box.end));
+    } catch {
+      return undefined;
+    }
+  };
+
+  const ifd0 = readBlock('CMT1');
+  if (!ifd0) return undefined;
+  const structure = { ...createExifStructure(ifd0.littleEndian), ifd0: ifd0.ifd0 };
+  const sameOrder = (block?: { littleEndian: boolean }) => block?.littleEndian === ifd0.littleEndian;
+
+  const exif = readBlock('CMT2');
+  if (sameOrder(exif)) structure.exif = exif!.ifd0;
+  const gps = readBlock('CMT4');
+  if (sameOrder(gps)) structure.gps = gps!.ifd0;
+
+  return writeExif(structure);
+}
+
+function readBoxes(bytes: Uint8Array, start: number, end: number): Box[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    let header = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,255 @@
+import {
+  EXIF_HEADER,
+  IPTC_RESOURCE_ID,
+  buildJpeg,
+  createPhotoshopSegment,
+  createSegment,
+  createXmpSegment,
+  getSegmentKind,
+  parseJpeg,
+  readIptcDatasets,
+  readPhotoshopResources,
+  readXmpPacket,
+  writeIptcDatasets,
+  IptcDataset,
+  JpegSegment,
+} from './jpegUtils';
+import { UploadedImage } from '../types';
+import {
+  TiffTag,
+  createExifStructure,
+  findEntry,
+  readExif,
+  removeEntries,
+  writeExif,
+} from './tiffUtils';
+
+export interface SanitizeOptions {
+  gps: boolean;
+  owner: boolean;
+  makerNote: boolean;
+  thumbnail: boolean;
+  exif: boolean;
+  xmp: boolean;
+  iptc: boolean;
+  icc: boolean;
+  comments: boolean;
+  keepOrientation: boolean;
+}
+
+export type SanitizeGroup = Exclude<keyof SanitizeOptions, 'keepOrientation'>;
+
+export const SANITIZE_GROUPS: { key: SanitizeGroup; label: string; description: string }[] = [
+  { key: 'gps', label: 'GPS location', description: 'Coordinates, altitude, GPS timestamps and place names' },
+  { key: 'owner', label: 'Owner & serial numbers', description: 'Artist, copyright, credit, owner name, body/lens serials' },
+  { key: 'makerNote', label: 'MakerNote', description: 'Vendor-specific camera data' },
+  { key: 'thumbnail', label: 'Embedded thumbnail', description: 'Preview images in the EXIF block or appended to the file' },
+  { key: 'exif', label: 'All EXIF', description: 'Camera, exposure and date tags' },
+  { key: 'xmp', label: 'XMP', description: 'Adobe/editor metadata packets' },
+  { key: 'iptc', label: 'IPTC', description: 'Captions, keywords and credits' },
+  { key: 'icc', label: 'ICC profile', description: 'Color profile (affects color rendering)' },
+  { key: 'comments', label: 'Comments', description: 'JPEG comment segments' },
+];
+
+export const SANITIZE_PRESETS: { name: string; options: SanitizeOptions }[] = [
+  {
+    name: 'Remove GPS only',
+    options: {
+      gps: true, owner: false, makerNote: false, thumbnail: false, exif: false,
+      xmp: false, iptc: false, icc: false, comments: false, keepOrientation: true,
+    },
+  },
+  {
+    name: 'Keep orientation & ICC',
+    options: {
+      gps: true, owner: true, makerNote: true, thumbnail: true, exif: true,
+      xmp: true, iptc: true, icc: false, comments: true, keepOrientation: true,
+    },
+  },
+  {
+    name: 'Remove everything',
+    options: {
+      gps: true, owner: true, makerNote: true, thumbnail: true, exif: true,
+      xmp: true, iptc: true, icc: true, comments: true, keepOrientation: false,
+    },
+  },
+];
+
+const OWNER_TAGS: number[] = [
+  TiffTag.Artist,
+  TiffTag.Copyright,
+  TiffTag.CameraOwnerName,
+  TiffTag.BodySerialNumber,
+  TiffTag.LensSerialNumber,
+  TiffTag.ImageUniqueId,
+];
+
+// XMP and IPTC-IIM (record 2) copies of the owner and location details
+const OWNER_XMP_PROPERTIES = [
+  'dc:creator',
+  'dc:rights',
+  'xmpRights:Owner',
+  'photoshop:Credit',
+  'photoshop:AuthorsPosition',
+  'Iptc4xmpCore:CreatorContactInfo',
+  'aux:SerialNumber',
+  'aux:LensSerialNumber',
+  'aux:OwnerName',
+  'exifEX:BodySerialNumber',
+  'exifEX:LensSerialNumber',
+  'exifEX:CameraOwnerName',
+  'exif:ImageUniqueID',
+];
+const LOCATION_XMP_PROPERTIES = [
+  'photoshop:City',
+  'photoshop:State',
+  'photoshop:Country',
+  'Iptc4xmpCore:Location',
+  'Iptc4xmpCore:CountryCode',
+  'Iptc4xmpExt:LocationCreated',
+  'Iptc4xmpExt:LocationShown',
+];
+// By-line, By-line Title, Credit, Source, Copyright Notice, Contact
+const OWNER_DATASETS = [80, 85, 110, 115, 116, 118];
+// Content Location Code/Name, City, Sub-location, Province/State, Country Code/Name
+const LOCATION_DATASETS = [26, 27, 90, 92, 95, 100, 101];
+// MD5 of the IIM block, stale once datasets are removed
+const IPTC_DIGEST_ID = 0x0425;
+
+// Only JPEG segments are rewritten; other containers are left for now
+export const canSanitize = (image: UploadedImage): boolean => image.metadata.format === 'jpeg';
+
+// Rewrites the JPEG header segments according to the options; the scan data
+// is copied byte for byte so the image itself is not re-encoded
+export const sanitizeImage = async (file: File, options: SanitizeOptions): Promise<Blob> => {
+  const buffer = await file.arrayBuffer();
+  const jpeg = parseJpeg(buffer);
+
+  const segments = jpeg.segments
+    .map((segment) => sanitizeSegment(segment, options))
+    .filter((segment): segment is JpegSegment => segment !== undefined);
+
+  const trailer = dropsAppendedImages(options) ? new Uint8Array(0) : jpeg.trailer;
+
+  return new Blob([buildJpeg({ segments, imageData: jpeg.imageData, trailer })], {
+    type: 'image/jpeg',
+  });
+};
+
+export const getSanitizedFileName = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? `${fileName.slice(0, dot)}-clean${fileName.slice(dot)}` : `${fileName}-clean.jpg`;
+};
+
+// Appended MPF previews carry their own EXIF block, GPS and owner tags
+// included, so any option that removes those removes the previews too
+function dropsAppendedImages(options: SanitizeOptions): boolean {
+  return options.exif || options.thumbnail || options.gps || options.owner || options.makerNote;
+}
+
+function sanitizeSegment(segment: JpegSegment, options: SanitizeOptions): JpegSegment | undefined {
+  switch (getSegmentKind(segment)) {
+    case 'exif':
+      return sanitizeExif(segment, options);
+    case 'xmp':
+      if (options.xmp) return undefined;
+      return options.gps || options.owner ? sanitizeXmp(segment, options) : segment;
+    case 'xmpExtended':
+      return options.xmp ? undefined : segment;
+    case 'iptc':
+      if (options.iptc) return undefined;
+      return options.gps || options.owner ? sanitizeIptc(segment, options) : segment;
+    case 'icc':
+      return options.icc ? undefined : segment;
+    case 'comment':
+      return options.comments ? undefined : segment;
+    case 'mpf':
+      // The MPF index describes the appended previews dropped with the trailer
+      return dropsAppendedImages(options) ? undefined : segment;
+    default:
+      return segment;
+  }
+}
+
+function sanitizeExif(segment: JpegSegment, options: SanitizeOptions): JpegSegment | undefined {
+  const source = readExif(segment.data.subarray(EXIF_HEADER.length));
+
+  if (options.exif) {
+    const orientation = findEntry(source.ifd0, TiffTag.Orientation);
+    if (!options.keepOrientation || !orientation) return undefined;
+
+    const minimal = createExifStructure(source.littleEndian);
+    minimal.ifd0 = [orientation];
+    return createSegment(0xe1, EXIF_HEADER, writeExif(minimal));
+  }
+
+  const structure = { ...source };
+  if (options.gps) structure.gps = [];
+  if (options.owner) {
+    structure.ifd0 = removeEntries(structure.ifd0, OWNER_TAGS);
+    structure.exif = removeEntries(structure.exif, OWNER_TAGS);
+  }
+  if (options.makerNote) structure.exif = removeEntries(structure.exif, [TiffTag.MakerNote]);
+  if (options.thumbnail) {
+    structure.ifd1 = [];
+    structure.thumbnail = undefined;
+  }
+  if (!options.keepOrientation) {
+    structure.ifd0 = removeEntries(structure.ifd0, [TiffTag.Orientation]);
+  }
+
+  return createSegment(0xe1, EXIF_HEADER, writeExif(structure));
+}
+
+function sanitizeXmp(segment: JpegSegment, options: SanitizeOptions): JpegSegment {
+  let xml = readXmpPacket(segment);
+  if (options.gps) xml = stripXmpProperties(stripXmpGps(xml), LOCATION_XMP_PROPERTIES);
+  if (options.owner) xml = stripXmpProperties(xml, OWNER_XMP_PROPERTIES);
+  return createXmpSegment(xml);
+}
+
+function sanitizeIptc(segment: JpegSegment, options: SanitizeOptions): JpegSegment | undefined {
+  const removed = [
+    ...(options.owner ? OWNER_DATASETS : []),
+    ...(options.gps ? LOCATION_DATASETS : []),
+  ];
+  const isRemoved = ({ record, dataset }: IptcDataset) => record === 2 && removed.includes(dataset);
+
+  try {
+    const resources = readPhotoshopResources(segment);
+    const iptc = resources.find((resource) => resource.id === IPTC_RESOURCE_ID);
+    if (!iptc || !readIptcDatasets(iptc.data).some(isRemoved)) return segment;
+
+    const datasets = readIptcDatasets(iptc.data).filter((dataset) => !isRemoved(dataset));
+    return createPhotoshopSegment(
+      resources
+        .filter((resource) => resource.id !== IPTC_DIGEST_ID)
+        .map((resource) =>
+          resource === iptc ? { ...resource, data: writeIptcDatasets(datasets) } : resource,
+        ),
+    );
+  } catch {
+    // A block that can't be parsed may still hold the details, so it goes
+    return undefined;
+  }
+}
+
+// XMP packets can duplicate the EXIF GPS tags as exif:GPS* properties
+export function stripXmpGps(xml: string): string {
+  return xml
+    .replace(/\s+exif:GPS\w+="[^"]*"/g, '')
+    .replace(/<exif:GPS(\w+)\s*\/>/g, '')
+    .replace(/<exif:GPS(\w+)[^>]*>[\s\S]*?<\/exif:GPS\1>/g, '');
+}
+
+// Removes properties written either as attributes or as (possibly nested) elements
+function stripXmpProperties(xml: string, names: string[]): string {
+  return names.reduce(
+    (result, name) =>
+      result
+        .replace(new RegExp(`\\s+${name}=("[^"]*"|'[^']*')`, 'g'), '')
+        .replace(new RegExp(`<${name}(\\s[^>]*)?\\/>`, 'g'), '')
+        .replace(new RegExp(`<${name}(\\s[^>]*)?>[\\s\\S]*?<\\/${name}>`, 'g'), ''),
+    xml,
+  );
+}
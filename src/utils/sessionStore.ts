@@ -0,0 +1,165 @@
+import { UploadedImage } from '../types';
+import { TileSource } from './mapUtils';
+
+export interface SessionSettings {
+  selectedId?: string;
+  theme: number;
+  tileSource?: TileSource;
+}
+
+export interface StoredSession {
+  images: UploadedImage[];
+  settings: SessionSettings;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+interface StoredImage extends Omit<UploadedImage, 'preview'> {
+  addedAt: number;
+}
+
+const DB_NAME = 'image-metadata-viewer';
+const DB_VERSION = 1;
+const IMAGES_STORE = 'images';
+const SETTINGS_STORE = 'settings';
+const SETTINGS_KEY = 'session';
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+// Restores the stored gallery in upload order; previews are recreated from the blobs
+export const loadSession = async (): Promise<StoredSession | undefined> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([IMAGES_STORE, SETTINGS_STORE], 'readonly');
+    const [records, settings] = await Promise.all([
+      request<StoredImage[]>(tx.objectStore(IMAGES_STORE).getAll()),
+      request<SessionSettings | undefined>(tx.objectStore(SETTINGS_STORE).get(SETTINGS_KEY)),
+    ]);
+
+    const images = records
+      .sort((a, b) => a.addedAt - b.addedAt)
+      .map(({ addedAt: _addedAt, ...image }) => ({
+        ...image,
+        preview: URL.createObjectURL(image.previewBlob ?? image.file),
+      }));
+    return { images, settings: settings ?? { theme: 0 } };
+  } catch (error) {
+    console.error('Error restoring session:', error);
+    return undefined;
+  }
+};
+
+// Inserts or replaces images, keeping the original position of existing ones
+export const saveImages = (images: UploadedImage[]): Promise<void> =>
+  withStore(IMAGES_STORE, 'readwrite', async (store) => {
+    const now = Date.now();
+    await Promise.all(
+      images.map(async ({ preview: _preview, ...image }, index) => {
+        const existing = await request<StoredImage | undefined>(store.get(image.id));
+        const record: StoredImage = { ...image, addedAt: existing?.addedAt ?? now + index };
+        try {
+          await request(store.put(record));
+        } catch {
+          // Fall back to the summary when a raw tag value can't be cloned
+          await request(store.put({ ...record, tags: undefined }));
+        }
+      }),
+    );
+  });
+
+export const deleteImages = (ids: string[]): Promise<void> =>
+  withStore(IMAGES_STORE, 'readwrite', async (store) => {
+    await Promise.all(ids.map((id) => request(store.delete(id))));
+  });
+
+export const clearImages = (): Promise<void> =>
+  withStore(IMAGES_STORE, 'readwrite', async (store) => {
+    await request(store.clear());
+  });
+
+export const saveSettings = (settings: SessionSettings): Promise<void> =>
+  withStore(SETTINGS_STORE, 'readwrite', async (store) => {
+    await request(store.put(settings, SETTINGS_KEY));
+  });
+
+export const forgetSession = async (): Promise<void> => {
+  try {
+    if (dbPromise) {
+      (await dbPromise).close();
+      dbPromise = undefined;
+    }
+    await request(indexedDB.deleteDatabase(DB_NAME));
+  } catch (error) {
+    console.error('Error deleting session:', error);
+  }
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | undefined> => {
+  if (!navigator.storage?.estimate) return undefined;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const open = indexedDB.open(DB_NAME, DB_VERSION);
+      open.onupgradeneeded = () => {
+        const db = open.result;
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+          db.createObjectStore(SETTINGS_STORE);
+        }
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = undefined;
+    });
+  }
+  return dbPromise;
+}
+
+// Storage failures (private mode, quota) are logged rather than surfaced
+async function withStore(
+  name: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<void>,
+): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(name, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onabort = () => reject(tx.error);
+    });
+    // Awaited together so an abort after a failed request is not left unhandled
+    await Promise.all([run(tx.objectStore(name)), done]);
+  } catch (error) {
+    console.error(`Error updating ${name} store:`, error);
+  }
+}
+
+function request<T>(req: IDBRequest<T> | IDBOpenDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
@@ -0,0 +1,178 @@
+import { RawTags } from '../types';
+
+export type TagSource =
+  | 'EXIF'
+  | 'GPS'
+  | 'IPTC'
+  | 'XMP'
+  | 'ICC'
+  | 'MakerNote'
+  | 'Composite'
+  | 'File'
+  | 'Thumbnail'
+  | 'Other';
+
+export const TAG_SOURCES: TagSource[] = [
+  'EXIF', 'GPS', 'IPTC', 'XMP', 'ICC', 'MakerNote', 'Composite', 'File', 'Thumbnail', 'Other',
+];
+
+export interface RawTagEntry {
+  source: TagSource;
+  // Dotted path into the ExifReader tag tree, e.g. "exif.FNumber"
+  path: string;
+  name: string;
+  description: string;
+  value: string;
+  unknown: boolean;
+}
+
+const GROUP_SOURCES: Record<string, TagSource> = {
+  exif: 'EXIF',
+  gps: 'GPS',
+  iptc: 'IPTC',
+  xmp: 'XMP',
+  icc: 'ICC',
+  makerNotes: 'MakerNote',
+  composite: 'Composite',
+  file: 'File',
+  jfif: 'File',
+  png: 'File',
+  pngFile: 'File',
+  pngText: 'File',
+  riff: 'File',
+  gif: 'File',
+  Thumbnail: 'Thumbnail',
+  mpf: 'Thumbnail',
+};
+
+const MAX_ARRAY_ITEMS = 32;
+
+export const flattenTags = (tags?: RawTags): RawTagEntry[] => {
+  if (!tags) return [];
+
+  const entries: RawTagEntry[] = [];
+
+  for (const [group, groupTags] of Object.entries(tags as Record<string, unknown>)) {
+    if (!groupTags || typeof groupTags !== 'object') continue;
+
+    for (const [name, tag] of Object.entries(groupTags as Record<string, unknown>)) {
+      // The unparsed XMP packet and thumbnail bytes are not tags
+      if (name === '_raw' || name === 'image' || name === 'base64') continue;
+      collectTag(entries, getSource(group, name), `${group}.${name}`, name, tag);
+    }
+  }
+
+  return entries;
+};
+
+// Looks up a tag by its "group.Name" path, e.g. "exif.DateTimeOriginal"
+export const getTagValue = (tags: RawTags | undefined, path: string): unknown => {
+  const [group, ...rest] = path.split('.');
+  const groupTags = (tags as Record<string, Record<string, unknown> | undefined> | undefined)?.[group];
+  return groupTags?.[rest.join('.')];
+};
+
+export const getTagDescription = (tags: RawTags | undefined, path: string): string | undefined => {
+  const tag = getTagValue(tags, path);
+  if (tag === undefined || tag === null) return undefined;
+  if (typeof tag !== 'object') return String(tag);
+
+  const { description, value } = tag as { description?: unknown; value?: unknown };
+  if (description !== undefined) return String(description);
+  return value === undefined ? undefined : formatRawValue(value);
+};
+
+// Numeric or rational tag value; rationals with a zero denominator are undefined
+export const getTagNumber = (tags: RawTags | undefined, path: string): number | undefined => {
+  const tag = getTagValue(tags, path);
+  let value = tag !== null && typeof tag === 'object' ? (tag as { value?: unknown }).value : tag;
+  if (Array.isArray(value) && Array.isArray(value[0])) value = value[0];
+
+  let number: number | undefined;
+  if (typeof value === 'number') {
+    number = value;
+  } else if (Array.isArray(value) && value.length === 1 && typeof value[0] === 'number') {
+    number = value[0];
+  } else if (Array.isArray(value) && value.length === 2 && typeof value[0] === 'number') {
+    number = value[1] ? value[0] / value[1] : undefined;
+  }
+  return number !== undefined && isFinite(number) ? number : undefined;
+};
+
+export const formatRawValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (value instanceof ArrayBuffer) return `<${value.byteLength} bytes>`;
+  if (ArrayBuffer.isView(value)) return `<${value.byteLength} bytes>`;
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map((item) =>
+      Array.isArray(item) ? `[${item.map(formatRawValue).join(', ')}]` : formatRawValue(item),
+    );
+    const more = value.length > MAX_ARRAY_ITEMS ? `, … (${value.length} values)` : '';
+    return `[${items.join(', ')}${more}]`;
+  }
+
+  try {
+    // Embedded previews carry their bytes and base64 alongside the tags
+    return JSON.stringify(value, (key, nested) =>
+      key === 'image' || key === 'base64' ? undefined : nested,
+    );
+  } catch {
+    return String(value);
+  }
+};
+
+function getSource(group: string, name: string): TagSource {
+  if (group === 'exif') {
+    if (name.startsWith('GPS')) return 'GPS';
+    if (name === 'MakerNote') return 'MakerNote';
+  }
+  return GROUP_SOURCES[group] ?? 'Other';
+}
+
+function collectTag(
+  entries: RawTagEntry[],
+  source: TagSource,
+  path: string,
+  name: string,
+  tag: unknown,
+) {
+  const unknown = name.startsWith('undefined-');
+
+  if (tag === null || typeof tag !== 'object' || ArrayBuffer.isView(tag) || tag instanceof ArrayBuffer) {
+    // Computed groups such as gps hold plain values
+    entries.push({ source, path, name, description: formatRawValue(tag), value: formatRawValue(tag), unknown });
+    return;
+  }
+
+  const { value, description } = tag as { value?: unknown; description?: unknown };
+
+  // XMP structures and arrays nest further tags inside value
+  if (source === 'XMP' && value && typeof value === 'object' && !ArrayBuffer.isView(value)) {
+    const children = Array.isArray(value)
+      ? value.map((child, index) => [String(index), child] as const)
+      : Object.entries(value as Record<string, unknown>);
+    if (children.length > 0 && children.every(([, child]) => child && typeof child === 'object' && 'value' in child)) {
+      for (const [childName, child] of children) {
+        collectTag(entries, source, `${path}.${childName}`, `${name}.${childName}`, child);
+      }
+      return;
+    }
+  }
+
+  if (value === undefined && description === undefined) {
+    entries.push({ source, path, name, description: '', value: formatRawValue(tag), unknown });
+    return;
+  }
+
+  entries.push({
+    source,
+    path,
+    name,
+    description: description === undefined ? formatRawValue(value) : String(description),
+    value: formatRawValue(value),
+    unknown,
+  });
+}
@@ -0,0 +1,159 @@
+import { UploadedImage } from '../types';
+import { isBrowserDisplayable } from './formatUtils';
+import {
+  CropRect,
+  HASH_BITS,
+  Rotation,
+  getDifferenceHash,
+  getHashDistance,
+  loadBitmap,
+} from './imageHashUtils';
+import { findEmbeddedJpegs } from './jpegUtils';
+import { needsOrientation, normalizeOrientation } from './orientationUtils';
+import { createOrientedPreview } from './previewUtils';
+
+export interface EmbeddedPreview {
+  label: string;
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface PreviewComparison {
+  // Width / height, after undoing any rotation and letterboxing
+  previewAspect: number;
+  imageAspect: number;
+  // Relative difference of the two aspect ratios
+  aspectDifference: number;
+  hashDistance: number;
+  rotation: Rotation;
+  mismatch: boolean;
+}
+
+export const ASPECT_MISMATCH_THRESHOLD = 0.05;
+export const HASH_MISMATCH_THRESHOLD = 12;
+
+// Rows or columns darker than this count as letterbox bars
+const BORDER_LUMINANCE = 16;
+const COMPARE_WIDTH = 256;
+// Embedded JPEGs smaller than this are usually vendor icons, not previews
+const MIN_PREVIEW_SIZE = 64;
+
+// The EXIF thumbnail plus any larger JPEG previews stored in the file
+// (MPF images after a JPEG, or the previews inside RAW files), turned by the
+// image's Orientation like the main preview
+export const getEmbeddedPreviews = async (image: UploadedImage): Promise<EmbeddedPreview[]> => {
+  const previews: EmbeddedPreview[] = [];
+  const { format, orientation } = image.metadata;
+
+  const addPreview = async (label: string, blob: Blob, width: number, height: number) => {
+    const oriented = needsOrientation(format, orientation)
+      ? await createOrientedPreview(blob, orientation!)
+      : undefined;
+    const transposed = !!oriented && normalizeOrientation(orientation) >= 5;
+    previews.push({
+      label,
+      url: URL.createObjectURL(oriented ?? blob),
+      width: transposed ? height : width,
+      height: transposed ? width : height,
+    });
+  };
+
+  if (image.metadata.thumbnail) {
+    const bitmap = await loadBitmap(image.metadata.thumbnail).catch(() => undefined);
+    if (bitmap) {
+      const blob = await (await fetch(image.metadata.thumbnail)).blob();
+      await addPreview('EXIF thumbnail', blob, bitmap.width, bitmap.height);
+      bitmap.close();
+    }
+  }
+
+  const bytes = new Uint8Array(await image.file.arrayBuffer());
+  const jpegs = findEmbeddedJpegs(bytes).filter(
+    (jpeg) =>
+      Math.min(jpeg.width, jpeg.height) >= MIN_PREVIEW_SIZE &&
+      // The main image of a JPEG is not a preview of itself
+      !(jpeg.offset === 0 && isBrowserDisplayable(image.metadata.format)),
+  );
+  for (const jpeg of jpegs) {
+    const blob = new Blob([bytes.slice(jpeg.offset, jpeg.offset + jpeg.length)], { type: 'image/jpeg' });
+    await addPreview('Embedded preview', blob, jpeg.width, jpeg.height);
+  }
+
+  return previews;
+};
+
+export const revokeEmbeddedPreviews = (previews: EmbeddedPreview[]) =>
+  previews.filter((preview) => preview.url.startsWith('blob:')).forEach((preview) => URL.revokeObjectURL(preview.url));
+
+// Compares a preview with the main image. Previews are often letterboxed and
+// some are stored turned differently from the main image, so black bars are
+// trimmed and all four rotations tried.
+export const comparePreview = async (previewUrl: string, imageUrl: string): Promise<PreviewComparison> => {
+  const [preview, image] = await Promise.all([
+    loadBitmap(previewUrl, COMPARE_WIDTH),
+    loadBitmap(imageUrl, COMPARE_WIDTH),
+  ]);
+
+  try {
+    const crop = findContentRect(preview);
+    const imageHash = getDifferenceHash(image);
+    const imageAspect = image.width / image.height;
+
+    let best = { rotation: 0 as Rotation, distance: HASH_BITS };
+    for (const rotation of [0, 90, 180, 270] as Rotation[]) {
+      const distance = getHashDistance(getDifferenceHash(preview, crop, rotation), imageHash);
+      if (distance < best.distance) best = { rotation, distance };
+    }
+
+    const previewAspect =
+      best.rotation % 180 === 0 ? crop.width / crop.height : crop.height / crop.width;
+    const aspectDifference = Math.abs(previewAspect - imageAspect) / imageAspect;
+
+    return {
+      previewAspect,
+      imageAspect,
+      aspectDifference,
+      hashDistance: best.distance,
+      rotation: best.rotation,
+      mismatch: aspectDifference > ASPECT_MISMATCH_THRESHOLD || best.distance > HASH_MISMATCH_THRESHOLD,
+    };
+  } finally {
+    preview.close();
+    image.close();
+  }
+};
+
+export const formatAspectRatio = (ratio: number): string =>
+  ratio >= 1 ? `${ratio.toFixed(2)}:1` : `1:${(1 / ratio).toFixed(2)}`;
+
+function findContentRect(bitmap: ImageBitmap): CropRect {
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, 0, 0);
+  const { data, width, height } = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+
+  const isDark = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114 < BORDER_LUMINANCE;
+  };
+  const rowIsDark = (y: number) => Array.from({ length: width }, (_, x) => x).every((x) => isDark(x, y));
+  const colIsDark = (x: number) => Array.from({ length: height }, (_, y) => y).every((y) => isDark(x, y));
+
+  let top = 0;
+  let bottom = height - 1;
+  let left = 0;
+  let right = width - 1;
+  while (top < bottom && rowIsDark(top)) top++;
+  while (bottom > top && rowIsDark(bottom)) bottom--;
+  while (left < right && colIsDark(left)) left++;
+  while (right > left && colIsDark(right)) right--;
+
+  // A fully dark image has no bars to remove
+  if (bottom - top < height / 4 || right - left < width / 4) {
+    return { x: 0, y: 0, width, height };
+  }
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+}
@@ -0,0 +1,330 @@
+export interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  // Raw value bytes, always in the byte order of the owning structure
+  value: Uint8Array;
+}
+
+export interface ExifStructure {
+  littleEndian: boolean;
+  ifd0: IfdEntry[];
+  exif: IfdEntry[];
+  gps: IfdEntry[];
+  interop: IfdEntry[];
+  ifd1: IfdEntry[];
+  thumbnail?: Uint8Array;
+}
+
+export type IfdName = 'ifd0' | 'exif' | 'gps' | 'interop' | 'ifd1';
+
+export const TiffTag = {
+  ImageDescription: 0x010e,
+  Make: 0x010f,
+  Model: 0x0110,
+  Orientation: 0x0112,
+  Software: 0x0131,
+  DateTime: 0x0132,
+  Artist: 0x013b,
+  SubIFDs: 0x014a,
+  JpegInterchangeFormat: 0x0201,
+  JpegInterchangeFormatLength: 0x0202,
+  Copyright: 0x8298,
+  ExifIfdPointer: 0x8769,
+  GpsIfdPointer: 0x8825,
+  DateTimeOriginal: 0x9003,
+  CreateDate: 0x9004,
+  OffsetTime: 0x9010,
+  OffsetTimeOriginal: 0x9011,
+  OffsetTimeDigitized: 0x9012,
+  MakerNote: 0x927c,
+  UserComment: 0x9286,
+  SubSecTimeOriginal: 0x9291,
+  InteropIfdPointer: 0xa005,
+  ImageUniqueId: 0xa420,
+  CameraOwnerName: 0xa430,
+  BodySerialNumber: 0xa431,
+  LensMake: 0xa433,
+  LensModel: 0xa434,
+  LensSerialNumber: 0xa435,
+  GpsVersionId: 0x0000,
+  GpsLatitudeRef: 0x0001,
+  GpsLatitude: 0x0002,
+  GpsLongitudeRef: 0x0003,
+  GpsLongitude: 0x0004,
+  GpsHPositioningError: 0x001f,
+} as const;
+
+export const TiffType = {
+  Byte: 1,
+  Ascii: 2,
+  Short: 3,
+  Long: 4,
+  Rational: 5,
+  Undefined: 7,
+  SLong: 9,
+  SRational: 10,
+} as const;
+
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8,
+};
+
+// Tags that hold offsets into the TIFF block; they are recomputed on write
+const POINTER_TAGS: number[] = [
+  TiffTag.ExifIfdPointer,
+  TiffTag.GpsIfdPointer,
+  TiffTag.InteropIfdPointer,
+  TiffTag.JpegInterchangeFormat,
+  TiffTag.JpegInterchangeFormatLength,
+  TiffTag.SubIFDs,
+];
+
+export function createExifStructure(littleEndian = false): ExifStructure {
+  return { littleEndian, ifd0: [], exif: [], gps: [], interop: [], ifd1: [] };
+}
+
+export function readExif(tiff: Uint8Array): ExifStructure {
+  if (tiff.length < 8) {
+    throw new Error('TIFF header is truncated');
+  }
+
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) {
+    throw new Error('Invalid TIFF byte order');
+  }
+  const littleEndian = order === 0x4949;
+  const structure = createExifStructure(littleEndian);
+
+  const ifd0 = readIfd(tiff, view, view.getUint32(4, littleEndian), littleEndian);
+  structure.ifd0 = ifd0.entries;
+
+  const exifOffset = getPointer(ifd0.entries, TiffTag.ExifIfdPointer, littleEndian);
+  if (exifOffset) {
+    structure.exif = readIfd(tiff, view, exifOffset, littleEndian).entries;
+    const interopOffset = getPointer(structure.exif, TiffTag.InteropIfdPointer, littleEndian);
+    if (interopOffset) {
+      structure.interop = readIfd(tiff, view, interopOffset, littleEndian).entries;
+    }
+  }
+
+  const gpsOffset = getPointer(ifd0.entries, TiffTag.GpsIfdPointer, littleEndian);
+  if (gpsOffset) {
+    structure.gps = readIfd(tiff, view, gpsOffset, littleEndian).entries;
+  }
+
+  if (ifd0.next) {
+    const ifd1 = readIfd(tiff, view, ifd0.next, littleEndian);
+    structure.ifd1 = ifd1.entries;
+    const thumbOffset = getPointer(ifd1.entries, TiffTag.JpegInterchangeFormat, littleEndian);
+    const thumbLength = getPointer(ifd1.entries, TiffTag.JpegInterchangeFormatLength, littleEndian);
+    if (thumbOffset && thumbLength && thumbOffset + thumbLength <= tiff.length) {
+      structure.thumbnail = tiff.slice(thumbOffset, thumbOffset + thumbLength);
+    }
+  }
+
+  return structure;
+}
+
+// Serializes the structure back into a TIFF block. MakerNote data is copied
+// as-is, so vendor notes that use absolute offsets may not survive a rewrite.
+export function writeExif(structure: ExifStructure): Uint8Array {
+  const { littleEndian } = structure;
+  const ifd0 = withoutPointers(structure.ifd0);
+  const exif = withoutPointers(structure.exif);
+  const interop = withoutPointers(structure.interop);
+  const gps = withoutPointers(structure.gps);
+  const ifd1 = withoutPointers(structure.ifd1);
+  const hasThumbnail = ifd1.length > 0 && !!structure.thumbnail;
+
+  if (interop.length && exif.length) exif.push(placeholder(TiffTag.InteropIfdPointer));
+  if (exif.length) ifd0.push(placeholder(TiffTag.ExifIfdPointer));
+  if (gps.length) ifd0.push(placeholder(TiffTag.GpsIfdPointer));
+  if (hasThumbnail) {
+    ifd1.push(placeholder(TiffTag.JpegInterchangeFormat));
+    ifd1.push(placeholder(TiffTag.JpegInterchangeFormatLength));
+  }
+
+  const layout: { name: IfdName; entries: IfdEntry[] }[] = [
+    { name: 'ifd0', entries: ifd0 },
+    { name: 'exif', entries: exif },
+    { name: 'interop', entries: exif.length ? interop : [] },
+    { name: 'gps', entries: gps },
+    { name: 'ifd1', entries: ifd0.length ? ifd1 : [] },
+  ].filter((ifd) => ifd.entries.length > 0) as { name: IfdName; entries: IfdEntry[] }[];
+
+  layout.forEach((ifd) => ifd.entries.sort((a, b) => a.tag - b.tag));
+
+  const offsets: Partial<Record<IfdName, number>> = {};
+  let size = 8;
+  for (const ifd of layout) {
+    offsets[ifd.name] = size;
+    size += ifdSize(ifd.entries);
+  }
+  const thumbnailOffset = size;
+  if (hasThumbnail) size += structure.thumbnail!.length;
+
+  const output = new Uint8Array(size);
+  const view = new DataView(output.buffer);
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, offsets.ifd0 ?? 0, littleEndian);
+
+  const pointerValues: Record<number, number> = {
+    [TiffTag.ExifIfdPointer]: offsets.exif ?? 0,
+    [TiffTag.GpsIfdPointer]: offsets.gps ?? 0,
+    [TiffTag.InteropIfdPointer]: offsets.interop ?? 0,
+    [TiffTag.JpegInterchangeFormat]: thumbnailOffset,
+    [TiffTag.JpegInterchangeFormatLength]: structure.thumbnail?.length ?? 0,
+  };
+
+  for (const ifd of layout) {
+    const start = offsets[ifd.name]!;
+    let dataOffset = start + 2 + ifd.entries.length * 12 + 4;
+    view.setUint16(start, ifd.entries.length, littleEndian);
+
+    ifd.entries.forEach((entry, index) => {
+      const entryOffset = start + 2 + index * 12;
+      view.setUint16(entryOffset, entry.tag, littleEndian);
+      view.setUint16(entryOffset + 2, entry.type, littleEndian);
+      view.setUint32(entryOffset + 4, entry.count, littleEndian);
+
+      if (POINTER_TAGS.includes(entry.tag)) {
+        view.setUint32(entryOffset + 8, pointerValues[entry.tag], littleEndian);
+      } else if (entry.value.length <= 4) {
+        output.set(entry.value, entryOffset + 8);
+      } else {
+        view.setUint32(entryOffset + 8, dataOffset, littleEndian);
+        output.set(entry.value, dataOffset);
+        dataOffset += entry.value.length + (entry.value.length % 2);
+      }
+    });
+
+    const next = ifd.name === 'ifd0' && offsets.ifd1 ? offsets.ifd1 : 0;
+    view.setUint32(start + 2 + ifd.entries.length * 12, next, littleEndian);
+  }
+
+  if (hasThumbnail) output.set(structure.thumbnail!, thumbnailOffset);
+
+  return output;
+}
+
+export function findEntry(entries: IfdEntry[], tag: number): IfdEntry | undefined {
+  return entries.find((entry) => entry.tag === tag);
+}
+
+export function removeEntries(entries: IfdEntry[], tags: number[]): IfdEntry[] {
+  return entries.filter((entry) => !tags.includes(entry.tag));
+}
+
+export function setEntry(entries: IfdEntry[], entry: IfdEntry): IfdEntry[] {
+  return [...entries.filter((existing) => existing.tag !== entry.tag), entry];
+}
+
+export function asciiEntry(tag: number, text: string): IfdEntry {
+  const bytes = new TextEncoder().encode(`${text}\0`);
+  return { tag, type: TiffType.Ascii, count: bytes.length, value: bytes };
+}
+
+export function shortEntry(tag: number, values: number[], littleEndian: boolean): IfdEntry {
+  const value = new Uint8Array(values.length * 2);
+  const view = new DataView(value.buffer);
+  values.forEach((v, i) => view.setUint16(i * 2, v, littleEndian));
+  return { tag, type: TiffType.Short, count: values.length, value };
+}
+
+export function byteEntry(tag: number, values: number[]): IfdEntry {
+  return { tag, type: TiffType.Byte, count: values.length, value: Uint8Array.from(values) };
+}
+
+export function rationalEntry(
+  tag: number,
+  values: [number, number][],
+  littleEndian: boolean,
+): IfdEntry {
+  const value = new Uint8Array(values.length * 8);
+  const view = new DataView(value.buffer);
+  values.forEach(([numerator, denominator], i) => {
+    view.setUint32(i * 8, numerator, littleEndian);
+    view.setUint32(i * 8 + 4, denominator, littleEndian);
+  });
+  return { tag, type: TiffType.Rational, count: values.length, value };
+}
+
+export function readAscii(entry?: IfdEntry): string | undefined {
+  if (!entry || entry.type !== TiffType.Ascii) return undefined;
+  return new TextDecoder().decode(entry.value).replace(/\0+$/, '').trim();
+}
+
+export function readShort(entry: IfdEntry | undefined, littleEndian: boolean): number | undefined {
+  if (!entry) return undefined;
+  const view = new DataView(entry.value.buffer, entry.value.byteOffset, entry.value.byteLength);
+  if (entry.type === TiffType.Short) return view.getUint16(0, littleEndian);
+  if (entry.type === TiffType.Long) return view.getUint32(0, littleEndian);
+  if (entry.type === TiffType.Byte) return entry.value[0];
+  return undefined;
+}
+
+function readIfd(
+  tiff: Uint8Array,
+  view: DataView,
+  offset: number,
+  littleEndian: boolean,
+): { entries: IfdEntry[]; next: number } {
+  if (offset + 2 > tiff.length) {
+    throw new Error(`IFD offset ${offset} is out of range`);
+  }
+
+  const count = view.getUint16(offset, littleEndian);
+  const entries: IfdEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const entryOffset = offset + 2 + i * 12;
+    if (entryOffset + 12 > tiff.length) break;
+
+    const tag = view.getUint16(entryOffset, littleEndian);
+    const type = view.getUint16(entryOffset + 2, littleEndian);
+    const valueCount = view.getUint32(entryOffset + 4, littleEndian);
+    const typeSize = TYPE_SIZES[type];
+    if (!typeSize) continue;
+
+    const byteLength = typeSize * valueCount;
+    const valueOffset = byteLength <= 4 ? entryOffset + 8 : view.getUint32(entryOffset + 8, littleEndian);
+    if (valueOffset + byteLength > tiff.length) continue;
+
+    entries.push({
+      tag,
+      type,
+      count: valueCount,
+      value: tiff.slice(valueOffset, valueOffset + byteLength),
+    });
+  }
+
+  const nextOffset = offset + 2 + count * 12;
+  const next = nextOffset + 4 <= tiff.length ? view.getUint32(nextOffset, littleEndian) : 0;
+
+  return { entries, next };
+}
+
+function getPointer(entries: IfdEntry[], tag: number, littleEndian: boolean): number | undefined {
+  const entry = findEntry(entries, tag);
+  if (!entry) return undefined;
+  const view = new DataView(entry.value.buffer, entry.value.byteOffset, entry.value.byteLength);
+  return entry.type === TiffType.Short ? view.getUint16(0, littleEndian) : view.getUint32(0, littleEndian);
+}
+
+function withoutPointers(entries: IfdEntry[]): IfdEntry[] {
+  return removeEntries(entries, POINTER_TAGS);
+}
+
+function placeholder(tag: number): IfdEntry {
+  return { tag, type: TiffType.Long, count: 1, value: new Uint8Array(4) };
+}
+
+function ifdSize(entries: IfdEntry[]): number {
+  const overflow = entries
+    .filter((entry) => !POINTER_TAGS.includes(entry.tag) && entry.value.length > 4)
+    .reduce((total, entry) => total + entry.value.length + (entry.value.length % 2), 0);
+  return 2 + entries.length * 12 + 4 + overflow;
+}
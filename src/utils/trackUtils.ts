@@ -0,0 +1,228 @@
+import { UploadedImage } from '../types';
+import { getCaptureTimestamp } from './dateUtils';
+import { getDistanceKm } from './geocodeUtils';
+
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  // UTC milliseconds
+  time: number;
+}
+
+export interface Track {
+  name: string;
+  points: TrackPoint[];
+}
+
+export interface TrackMatchOptions {
+  // Longest interval between two fixes that is still interpolated, and the
+  // furthest a photo may sit before the first or after the last fix
+  maxGapSeconds: number;
+  // Added to camera times to bring them onto the track's UTC clock
+  clockOffsetSeconds: number;
+}
+
+export interface TrackMatch {
+  imageId: string;
+  latitude: number;
+  longitude: number;
+  time: number;
+  // Time to the nearest recorded fix
+  gapSeconds: number;
+}
+
+export interface TrackReview {
+  track: Track;
+  options: TrackMatchOptions;
+  matches: TrackMatch[];
+}
+
+export const DEFAULT_TRACK_MATCH_OPTIONS: TrackMatchOptions = {
+  maxGapSeconds: 300,
+  clockOffsetSeconds: 0,
+};
+
+export const TRACK_FILE_TYPES = '.gpx,.kml,.geojson,.json';
+
+// Reads timestamped points from GPX, KML (gx:Track, timed Placemarks or a
+// LineString with a TimeSpan) or GeoJSON LineStrings
+export const parseTrackFile = async (file: File): Promise<Track> => {
+  const text = await file.text();
+  const points = text.trimStart().startsWith('{') ? parseGeoJson(text) : parseXmlTrack(text);
+  if (points.length === 0) throw new Error('No timestamped track points found');
+  return {
+    name: file.name.replace(/\.[^.]+$/, ''),
+    points: points.sort((a, b) => a.time - b.time),
+  };
+};
+
+// Proposes positions for images without GPS by interpolating along the track
+export const matchImagesToTrack = (
+  images: UploadedImage[],
+  track: Track,
+  options: TrackMatchOptions,
+): TrackMatch[] =>
+  images.flatMap((image) => {
+    if (image.metadata.gps) return [];
+    const timestamp = getCaptureTimestamp(image.metadata);
+    if (timestamp === undefined) return [];
+    const time = timestamp + options.clockOffsetSeconds * 1000;
+    const position = locateOnTrack(track.points, time, options.maxGapSeconds * 1000);
+    return position ? [{ imageId: image.id, time, ...position }] : [];
+  });
+
+function locateOnTrack(
+  points: TrackPoint[],
+  time: number,
+  maxGap: number,
+): { latitude: number; longitude: number; gapSeconds: number } | undefined {
+  const next = findFirstAtOrAfter(points, time);
+  const after = points[next];
+  const before = points[next - 1];
+
+  if (after && after.time === time) {
+    return { latitude: after.latitude, longitude: after.longitude, gapSeconds: 0 };
+  }
+  if (before && after) {
+    if (after.time - before.time > maxGap) return undefined;
+    const ratio = (time - before.time) / (after.time - before.time);
+    return {
+      latitude: before.latitude + (after.latitude - before.latitude) * ratio,
+      longitude: before.longitude + (after.longitude - before.longitude) * ratio,
+      gapSeconds: Math.round(Math.min(time - before.time, after.time - time) / 1000),
+    };
+  }
+
+  const end = before ?? after;
+  const gap = Math.abs(time - end.time);
+  return gap <= maxGap
+    ? { latitude: end.latitude, longitude: end.longitude, gapSeconds: Math.round(gap / 1000) }
+    : undefined;
+}
+
+function findFirstAtOrAfter(points: TrackPoint[], time: number): number {
+  let low = 0;
+  let high = points.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (points[mid].time < time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+function parseXmlTrack(text: string): TrackPoint[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Not a valid GPX, KML or GeoJSON file');
+  }
+
+  const gpxPoints = [...doc.getElementsByTagName('trkpt'), ...doc.getElementsByTagName('rtept')].flatMap(
+    (element) => {
+      const time = parseTime(childText(element, 'time'));
+      const latitude = parseFloat(element.getAttribute('lat') ?? '');
+      const longitude = parseFloat(element.getAttribute('lon') ?? '');
+      return toPoint(latitude, longitude, time);
+    },
+  );
+  if (gpxPoints.length > 0) return gpxPoints;
+
+  return [...doc.getElementsByTagName('Placemark')].flatMap(parseKmlPlacemark);
+}
+
+function parseKmlPlacemark(placemark: Element): TrackPoint[] {
+  // gx:Track pairs each <when> with a <gx:coord> "lng lat alt"
+  const tracks = [...placemark.getElementsByTagName('gx:Track')];
+  if (tracks.length > 0) {
+    return tracks.flatMap((track) => {
+      const times = [...track.getElementsByTagName('when')].map((when) => parseTime(when.textContent));
+      return [...track.getElementsByTagName('gx:coord')].flatMap((coord, index) => {
+        const [longitude, latitude] = (coord.textContent ?? '').trim().split(/\s+/).map(parseFloat);
+        return toPoint(latitude, longitude, times[index]);
+      });
+    });
+  }
+
+  const coordinates = [...placemark.getElementsByTagName('coordinates')].map((element) =>
+    (element.textContent ?? '')
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((tuple) => tuple.split(',').map(parseFloat)),
+  );
+
+  const stamp = parseTime(childText(placemark, 'TimeStamp', 'when'));
+  if (stamp !== undefined) {
+    return coordinates.flatMap((tuples) => tuples.flatMap(([longitude, latitude]) => toPoint(latitude, longitude, stamp)));
+  }
+
+  // A LineString only carries a begin and end time; spread it by distance
+  const begin = parseTime(childText(placemark, 'TimeSpan', 'begin'));
+  const end = parseTime(childText(placemark, 'TimeSpan', 'end'));
+  if (begin === undefined || end === undefined) return [];
+  const vertices = coordinates.flat().map(([longitude, latitude]) => ({ latitude, longitude }));
+  const distances = vertices.map((vertex, index) =>
+    index === 0 ? 0 : getDistanceKm(vertices[index - 1].latitude, vertices[index - 1].longitude, vertex.latitude, vertex.longitude),
+  );
+  const total = distances.reduce((sum, distance) => sum + distance, 0);
+  let travelled = 0;
+  return vertices.flatMap((vertex, index) => {
+    travelled += distances[index];
+    const ratio = total > 0 ? travelled / total : index / Math.max(1, vertices.length - 1);
+    return toPoint(vertex.latitude, vertex.longitude, begin + (end - begin) * ratio);
+  });
+}
+
+// GeoJSON has no standard for times; coordTimes (togeojson) and a fourth
+// coordinate holding epoch seconds, milliseconds or an ISO string are common
+function parseGeoJson(text: string): TrackPoint[] {
+  const json = JSON.parse(text);
+  const features: { geometry?: GeoJsonGeometry; properties?: Record<string, unknown> }[] =
+    json.type === 'FeatureCollection' ? json.features : json.type === 'Feature' ? [json] : [{ geometry: json }];
+
+  return features.flatMap(({ geometry, properties }) => {
+    if (!geometry) return [];
+    const lines =
+      geometry.type === 'LineString'
+        ? [geometry.coordinates as number[][]]
+        : geometry.type === 'MultiLineString'
+          ? (geometry.coordinates as number[][][])
+          : [];
+    const coordTimes =
+      properties?.coordTimes ?? (properties?.coordinateProperties as Record<string, unknown> | undefined)?.times;
+    const times = Array.isArray(coordTimes) && !Array.isArray(coordTimes[0]) ? [coordTimes] : (coordTimes as unknown[][]);
+
+    return lines.flatMap((line, lineIndex) =>
+      line.flatMap(([longitude, latitude, , time], index) =>
+        toPoint(latitude, longitude, parseTime(times?.[lineIndex]?.[index] ?? time)),
+      ),
+    );
+  });
+}
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates: unknown;
+}
+
+function parseTime(value: unknown): number | undefined {
+  if (typeof value === 'number') return value > 1e11 ? value : value * 1000;
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  // Times without a zone are taken as UTC, as GPS loggers record them
+  const text = value.trim();
+  const ms = Date.parse(/([zZ]|[+-]\d{2}:?\d{2})$/.test(text) ? text : `${text}Z`);
+  return isNaN(ms) ? undefined : ms;
+}
+
+function childText(element: Element, ...path: string[]): string | undefined {
+  let current: Element | undefined = element;
+  for (const name of path) {
+    current = current?.getElementsByTagName(name)[0];
+  }
+  return current?.textContent ?? undefined;
+}
+
+function toPoint(latitude: number, longitude: number, time: number | undefined): TrackPoint[] {
+  const valid = time !== undefined && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+  return valid ? [{ latitude, longitude, time }] : [];
+}
@@ -0,0 +1,16 @@
+import { extractImageMetadata } from '../utils/exifUtils';
+import { ExtractionRequest, ExtractionResponse } from '../utils/extractionPool';
+
+self.onmessage = async (e: MessageEvent<ExtractionRequest>) => {
+  const { id, file } = e.data;
+  const result = await extractImageMetadata(file);
+  try {
+    self.postMessage({ id, result } satisfies ExtractionResponse);
+  } catch {
+    // Some tag values can't be cloned; the summary fields always can
+    self.postMessage({
+      id,
+      result: { metadata: result.metadata, tags: {} },
+    } satisfies ExtractionResponse);
+  }
+};